@@ -0,0 +1,507 @@
+import fs from 'fs/promises';
+import { parseArgs } from 'util';
+import { getActor } from '../lib/audit';
+import {
+  exportInstanceSnapshot,
+  formatInstanceSnapshot,
+  getSnapshotFileFormat,
+  isSnapshotPath,
+} from '../lib/instance-snapshot';
+import { DatabaseConnection } from '../lib/database';
+import { IgnoreStore } from '../lib/ignore';
+import { PermissionComparator, PermissionDiff } from '../lib/permissions';
+import { isPolicyOverrides, PolicyComparator, PolicyOverrides } from '../lib/policies';
+import { exportPolicyFiles } from '../lib/policy-files';
+import { PreflightError } from '../lib/preflight';
+import {
+  disconnectAll,
+  getDatabase,
+  getDefaultProfiles,
+  getProfileConnections,
+  getSnapshotDatabase,
+  loadProfiles,
+  summarizeProfile,
+} from '../lib/profiles';
+import { DiffStatus, summarizeDiffs } from '../lib/records';
+import {
+  buildDriftReport,
+  DEFAULT_FAIL_ON,
+  DriftReport,
+  formatJsonReport,
+  formatJUnitReport,
+  formatMarkdownReport,
+} from '../lib/reports';
+import { previewChanges, RecordedSync, SyncRequest, syncWithHistory } from '../lib/sync';
+
+const USAGE = `Usage: pnpm cli <command> [options]
+
+Commands:
+  compare                Compare permissions between source and target
+  sync                   Sync permissions from source to target
+  check                  Fail when permissions have drifted (for CI)
+  export                 Write an instance snapshot file for offline comparison
+  export-permissions     Write one YAML file per policy into a directory
+  apply <directory>      Sync the target to a directory of policy files
+  profiles               List the configured connection profiles
+
+Connections (all commands):
+  --source <profile>     Source connection profile (default: DEFAULT_SOURCE_PROFILE or "source")
+  --target <profile>     Target connection profile (default: DEFAULT_TARGET_PROFILE or "target")
+                         Either may also be a .json/.yaml snapshot file or a policy files directory
+
+Filters (compare, sync and apply; check uses --policy, --collection, --policy-map and --include-ignored):
+  --status <status>      added, removed, modified or identical; repeatable
+                         (default: added and modified, like the UI)
+  --policy <name|id>     Only permissions of this policy; repeatable
+  --collection <name>    Only permissions on this collection; repeatable
+  --policy-map <json>    Manual policy pairings, {"<source id>": "<target id>" | null}
+  --baseline <profile>   Three-way compare against a common baseline (profile or snapshot file);
+                         sync --all and apply then skip target-side changes and conflicts
+  --include-ignored      Disregard the ignore rules (data/ignore.json) set up in the UI
+
+Compare options:
+  --format <text|json>   Output format (default: text)
+
+Sync options:
+  --key <key>            Sync the diff with this key (as printed by compare); repeatable
+  --all                  Sync every diff that matches the filters
+  --atomic               Apply all changes in one transaction, or none if any fails
+  --dry-run              Print the SQL the sync would run instead of running it
+
+Apply options:
+  --atomic, --dry-run    As for sync; apply syncs every matching diff, plus policy settings
+                         (pass --status removed as well to delete permissions missing from the files)
+
+Export options:
+  --profile <profile>    Profile to export (default: the source profile)
+  --out <path>           Snapshot file to write, .json or .yaml (default: stdout, JSON);
+                         for export-permissions, the directory to write (required)
+
+Check options:
+  --fail-on <status>     Statuses that count as drift; repeatable
+                         (default: added, removed and modified)
+  --json <path>          Write a JSON report ("-" for stdout)
+  --junit <path>         Write a JUnit XML report ("-" for stdout)
+  --markdown <path>      Write a Markdown summary ("-" for stdout)
+
+Exit codes:
+  0  success / no drift
+  1  drift found (check) or some changes failed to sync (sync)
+  2  usage, configuration or connection error
+`;
+
+const OPTIONS = {
+  status: { type: 'string', multiple: true },
+  policy: { type: 'string', multiple: true },
+  collection: { type: 'string', multiple: true },
+  'policy-map': { type: 'string' },
+  baseline: { type: 'string' },
+  'include-ignored': { type: 'boolean', default: false },
+  source: { type: 'string' },
+  target: { type: 'string' },
+  format: { type: 'string', default: 'text' },
+  key: { type: 'string', multiple: true },
+  all: { type: 'boolean', default: false },
+  atomic: { type: 'boolean', default: false },
+  'dry-run': { type: 'boolean', default: false },
+  'fail-on': { type: 'string', multiple: true },
+  json: { type: 'string' },
+  junit: { type: 'string' },
+  markdown: { type: 'string' },
+  profile: { type: 'string' },
+  out: { type: 'string' },
+  help: { type: 'boolean', short: 'h', default: false },
+} as const;
+
+type CliOptions = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const STATUSES: DiffStatus[] = ['added', 'removed', 'modified', 'identical'];
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_ERROR = 2;
+
+function parseStatuses(values: string[]): DiffStatus[] {
+  const unknownStatus = values.find(status => !STATUSES.includes(status as DiffStatus));
+  if (unknownStatus) {
+    throw new Error(`Unknown status "${unknownStatus}". Expected one of: ${STATUSES.join(', ')}`);
+  }
+  return values as DiffStatus[];
+}
+
+function parsePolicyMap(value: string | undefined): PolicyOverrides {
+  if (!value) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = undefined;
+  }
+  if (!isPolicyOverrides(parsed)) {
+    throw new Error('--policy-map must be a JSON object of source policy id to target policy id');
+  }
+  return parsed;
+}
+
+// Names that match no profile may point at a snapshot file or policy files directory instead
+function fromFile(name: string | null): DatabaseConnection | null {
+  return name && isSnapshotPath(name) ? getSnapshotDatabase(name) : null;
+}
+
+function getConnections(options: CliOptions) {
+  const profiles = getProfileConnections(options.source, options.target);
+  const { sourceProfile, targetProfile } = profiles;
+  const sourceDb = profiles.sourceDb ?? fromFile(sourceProfile);
+  const targetDb = profiles.targetDb ?? fromFile(targetProfile);
+
+  if (!sourceDb || !targetDb) {
+    const missing = !sourceDb ? sourceProfile : targetProfile;
+    throw new Error(missing
+      ? `Connection profile "${missing}" not found. Run "pnpm cli profiles" to list them.`
+      : 'Database connections not configured. Please check your connection profiles and environment variables.');
+  }
+  if (sourceProfile === targetProfile) {
+    throw new Error('Source and target must be different connection profiles');
+  }
+
+  return { sourceDb, targetDb };
+}
+
+function getWritableConnections(options: CliOptions) {
+  const connections = getConnections(options);
+  if (connections.targetDb.isSnapshot()) {
+    throw new Error('The target is a snapshot, which is read-only');
+  }
+  return connections;
+}
+
+async function createComparator(
+  sourceDb: DatabaseConnection,
+  targetDb: DatabaseConnection,
+  options: CliOptions,
+  policyOverrides = parsePolicyMap(options['policy-map'])
+): Promise<PermissionComparator> {
+  const ignoreRules = options['include-ignored'] ? [] : await new IgnoreStore().list();
+  return new PermissionComparator(sourceDb, targetDb, policyOverrides, ignoreRules);
+}
+
+async function comparePermissions(comparator: PermissionComparator, options: CliOptions): Promise<PermissionDiff[]> {
+  if (!options.baseline) {
+    return comparator.comparePermissions();
+  }
+
+  const baselineDb = getDatabase(options.baseline) ?? fromFile(options.baseline);
+  if (!baselineDb) {
+    throw new Error(`Baseline "${options.baseline}" is neither a connection profile nor a snapshot file`);
+  }
+  return comparator.compareWithBaseline(baselineDb);
+}
+
+function filterDiffs(diffs: PermissionDiff[], options: CliOptions): PermissionDiff[] {
+  const statuses = parseStatuses(options.status ?? ['added', 'modified']);
+
+  return diffs.filter(diff =>
+    statuses.includes(diff.status) &&
+    (!options.policy || options.policy.some(policy => policy === diff.policy_name || policy === diff.policy)) &&
+    (!options.collection || options.collection.includes(diff.collection))
+  );
+}
+
+// `log` is console.error for listings that must stay off stdout, e.g. next to dry-run SQL
+function printTable(header: string[], rows: string[][], log = console.log): void {
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map(row => row[i].length)));
+
+  [header, ...rows].forEach(row => {
+    log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+  });
+}
+
+function printDiffTable(diffs: PermissionDiff[], log = console.log): void {
+  if (!diffs.some(diff => diff.merge)) {
+    printTable(
+      ['STATUS', 'POLICY', 'COLLECTION', 'ACTION', 'KEY'],
+      diffs.map(diff => [diff.status.toUpperCase(), diff.policy_name, diff.collection, diff.action, diff.key]),
+      log
+    );
+    return;
+  }
+
+  printTable(
+    ['STATUS', 'MERGE', 'POLICY', 'COLLECTION', 'ACTION', 'KEY'],
+    diffs.map(diff => [diff.status.toUpperCase(), diff.merge?.status ?? '', diff.policy_name, diff.collection, diff.action, diff.key]),
+    log
+  );
+}
+
+async function compare(options: CliOptions): Promise<number> {
+  if (options.format !== 'text' && options.format !== 'json') {
+    throw new Error(`Unknown format "${options.format}". Expected text or json`);
+  }
+
+  const { sourceDb, targetDb } = getConnections(options);
+  const comparator = await createComparator(sourceDb, targetDb, options);
+  const allDiffs = await comparePermissions(comparator, options);
+  const diffs = filterDiffs(allDiffs, options);
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify({
+      source: sourceDb.getConnectionInfo(),
+      target: targetDb.getConnectionInfo(),
+      summary: summarizeDiffs(allDiffs),
+      data: diffs,
+    }, null, 2));
+    return EXIT_OK;
+  }
+
+  const source = sourceDb.getConnectionInfo();
+  const target = targetDb.getConnectionInfo();
+  const summary = summarizeDiffs(allDiffs);
+  console.log(`Source: ${source.server} / ${source.database}`);
+  console.log(`Target: ${target.server} / ${target.database}`);
+  console.log('');
+  if (diffs.length > 0) {
+    printDiffTable(diffs);
+  } else {
+    console.log('No permissions match the filters.');
+  }
+  console.log('');
+  console.log(`${diffs.length} shown. Overall: ${summary.added} added, ${summary.removed} removed, ${summary.modified} modified, ${summary.identical} identical`);
+  return EXIT_OK;
+}
+
+async function sync(options: CliOptions): Promise<number> {
+  if (!options.all && !options.key) {
+    throw new Error('Choose what to sync with --key <key> (repeatable) or --all');
+  }
+
+  const { sourceDb, targetDb } = getWritableConnections(options);
+  const comparator = await createComparator(sourceDb, targetDb, options);
+  // Explicitly selected keys may have any status unless --status narrows them down
+  const filterOptions = options.key && !options.status ? { ...options, status: STATUSES } : options;
+  const diffs = filterDiffs(await comparePermissions(comparator, filterOptions), filterOptions)
+    .filter(diff => diff.status !== 'identical');
+
+  let selected = diffs;
+  if (options.key) {
+    const missing = options.key.filter(key => !diffs.some(diff => diff.key === key));
+    if (missing.length > 0) {
+      throw new Error(`No pending change matches key(s): ${missing.join(', ')}`);
+    }
+    selected = diffs.filter(diff => options.key!.includes(diff.key));
+  } else {
+    selected = skipTargetChanges(diffs);
+  }
+
+  return runSync(sourceDb, targetDb, { diffs: selected }, options);
+}
+
+/**
+ * In three-way mode, leaves out diffs that would undo a change made on the target, so bulk
+ * syncs never overwrite hotfixes. They can still be synced one by one with --key. The skipped
+ * diffs are listed on stderr so `--dry-run` output stays plain SQL.
+ */
+function skipTargetChanges(diffs: PermissionDiff[]): PermissionDiff[] {
+  const held = diffs.filter(diff => diff.merge?.status === 'target-change' || diff.merge?.status === 'conflict');
+  if (held.length > 0) {
+    console.error(`Skipping ${held.length} target-side changes and conflicts (sync them with --key):`);
+    printDiffTable(held, console.error);
+    console.error('');
+  }
+  return diffs.filter(diff => !held.includes(diff));
+}
+
+async function runSync(
+  sourceDb: DatabaseConnection,
+  targetDb: DatabaseConnection,
+  request: SyncRequest,
+  options: CliOptions
+): Promise<number> {
+  if (request.diffs.length === 0 && !request.policyDiffs?.length) {
+    console.log('Nothing to sync.');
+    return EXIT_OK;
+  }
+
+  if (options['dry-run']) {
+    const preview = await previewChanges(sourceDb, targetDb, request);
+    process.stdout.write(preview.sql);
+    return preview.problems.length > 0 || preview.results.some(r => !r.success) ? EXIT_FAILED : EXIT_OK;
+  }
+
+  let recorded: RecordedSync;
+  try {
+    recorded = await syncWithHistory(sourceDb, targetDb, request, { atomic: options.atomic, actor: getActor() });
+  } catch (error) {
+    if (error instanceof PreflightError) {
+      console.error(`Sync blocked, nothing was applied. ${error.message}`);
+      return EXIT_FAILED;
+    }
+    throw error;
+  }
+  const { results, rolledBack, snapshotId, summary } = recorded;
+
+  results.forEach(result => {
+    console.log(`${result.success ? 'OK  ' : 'FAIL'}  ${result.message}`);
+  });
+  console.log('');
+  console.log(rolledBack
+    ? 'Atomic sync rolled back, nothing was applied.'
+    : `Sync completed: ${summary.successful} successful, ${summary.failed} failed`);
+  if (snapshotId) {
+    console.log(`Pre-sync snapshot: ${snapshotId}`);
+  }
+
+  return summary.failed > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+async function writeReport(target: string, content: string): Promise<void> {
+  if (target === '-') {
+    process.stdout.write(content);
+  } else {
+    await fs.writeFile(target, content);
+  }
+}
+
+async function check(options: CliOptions): Promise<number> {
+  const { sourceDb, targetDb } = getConnections(options);
+  const comparator = await createComparator(sourceDb, targetDb, options);
+  // Every status is in scope for a check; --fail-on decides which ones count as drift
+  const diffs = filterDiffs(await comparator.comparePermissions(), { ...options, status: STATUSES });
+
+  const report: DriftReport = buildDriftReport(diffs, {
+    source: sourceDb.getConnectionInfo(),
+    target: targetDb.getConnectionInfo(),
+    failOn: options['fail-on'] ? parseStatuses(options['fail-on']) : DEFAULT_FAIL_ON,
+  });
+
+  const reports: Array<[string | undefined, (report: DriftReport) => string]> = [
+    [options.json, formatJsonReport],
+    [options.junit, formatJUnitReport],
+    [options.markdown, formatMarkdownReport],
+  ];
+  for (const [target, format] of reports) {
+    if (target) {
+      await writeReport(target, format(report));
+    }
+  }
+
+  // Keep stdout clean when a report is being written to it
+  if (!reports.some(([target]) => target === '-')) {
+    const drifted = diffs.filter(diff => report.failOn.includes(diff.status));
+    if (drifted.length > 0) {
+      printDiffTable(drifted);
+      console.log('');
+    }
+    const { summary } = report;
+    console.log(`${report.passed ? 'No drift' : 'Drift detected'}: ${summary.added} added, ${summary.removed} removed, ${summary.modified} modified, ${summary.identical} identical`);
+  }
+
+  return report.passed ? EXIT_OK : EXIT_FAILED;
+}
+
+async function exportSnapshot(options: CliOptions): Promise<number> {
+  const name = options.profile ?? options.source ?? getDefaultProfiles().source;
+  const db = getDatabase(name);
+  if (!db) {
+    throw new Error(name
+      ? `Connection profile "${name}" not found. Run "pnpm cli profiles" to list them.`
+      : 'No connection profile to export. Pass --profile <profile>.');
+  }
+
+  const snapshot = await exportInstanceSnapshot(db);
+  if (!options.out || options.out === '-') {
+    process.stdout.write(formatInstanceSnapshot(snapshot, 'json'));
+    return EXIT_OK;
+  }
+
+  await fs.writeFile(options.out, formatInstanceSnapshot(snapshot, getSnapshotFileFormat(options.out)));
+  const rowCount = Object.values(snapshot.tables).reduce((count, table) => count + table.rows.length, 0);
+  console.log(`Exported ${rowCount} rows from ${Object.keys(snapshot.tables).length} tables of "${name}" to ${options.out}`);
+  return EXIT_OK;
+}
+
+async function exportPermissions(options: CliOptions): Promise<number> {
+  if (!options.out || options.out === '-') {
+    throw new Error('Choose the directory to write with --out <directory>');
+  }
+
+  const name = options.profile ?? options.source ?? getDefaultProfiles().source;
+  const db = getDatabase(name);
+  if (!db) {
+    throw new Error(`Connection profile "${name}" not found. Run "pnpm cli profiles" to list them.`);
+  }
+
+  const { written, removed } = await exportPolicyFiles(db, options.out);
+  console.log(`Wrote ${written.length} policy files to ${options.out}${removed.length > 0 ? `, removed ${removed.join(', ')}` : ''}`);
+  return EXIT_OK;
+}
+
+async function apply(options: CliOptions, dir: string | undefined): Promise<number> {
+  if (!dir) {
+    throw new Error('Pass the directory of policy files: pnpm cli apply <directory>');
+  }
+
+  const { sourceDb, targetDb } = getWritableConnections({ ...options, source: dir });
+  const policyOverrides = parsePolicyMap(options['policy-map']);
+  const comparator = await createComparator(sourceDb, targetDb, options, policyOverrides);
+  const diffs = skipTargetChanges(filterDiffs(await comparePermissions(comparator, options), options)
+    .filter(diff => diff.status !== 'identical'));
+
+  // Policies defined in the files are created or updated too; deleting policies stays manual
+  const policyDiffs = (await new PolicyComparator(sourceDb, targetDb, policyOverrides).comparePolicies(await comparator.matchPolicies()))
+    .filter(diff =>
+      (diff.status === 'added' || diff.status === 'modified') &&
+      !diff.ambiguous &&
+      (!options.policy || options.policy.some(policy => policy === diff.name || policy === diff.sourcePolicy?.id))
+    );
+
+  return runSync(sourceDb, targetDb, { diffs, policyDiffs }, options);
+}
+
+function profiles(): number {
+  const rows = loadProfiles().map(summarizeProfile).map(profile => [profile.name, profile.type, `${profile.server} / ${profile.database}`, profile.label]);
+  if (rows.length === 0) {
+    console.log('No connection profiles configured.');
+    return EXIT_OK;
+  }
+
+  printTable(['NAME', 'TYPE', 'DATABASE', 'LABEL'], rows);
+  return EXIT_OK;
+}
+
+/**
+ * Runs a CLI command and returns the process exit code.
+ */
+export async function run(argv: string[]): Promise<number> {
+  const { values: options, positionals } = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  const [command] = positionals;
+
+  if (options.help || !command) {
+    console.log(USAGE);
+    return options.help ? EXIT_OK : EXIT_ERROR;
+  }
+
+  try {
+    switch (command) {
+      case 'compare':
+        return await compare(options);
+      case 'sync':
+        return await sync(options);
+      case 'check':
+        return await check(options);
+      case 'export':
+        return await exportSnapshot(options);
+      case 'export-permissions':
+        return await exportPermissions(options);
+      case 'apply':
+        return await apply(options, positionals[1]);
+      case 'profiles':
+        return profiles();
+      default:
+        console.error(`Unknown command "${command}"\n`);
+        console.error(USAGE);
+        return EXIT_ERROR;
+    }
+  } finally {
+    await disconnectAll();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Headless entry point for scripting compares and syncs: `pnpm cli <command> [options]`.
+ */
+import { loadEnvConfig } from '@next/env';
+
+// Connection profiles, their `${VAR}` placeholders and the data directory all come from the
+// environment, so load the .env files the same way Next.js does before running any command
+loadEnvConfig(process.cwd());
+
+import('./commands')
+  .then(({ run }) => run(process.argv.slice(2)))
+  .then(exitCode => process.exit(exitCode))
+  .catch(error => {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    // EXIT_ERROR: keeps configuration and connection problems apart from detected drift
+    process.exit(2);
+  });
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { AuditChange, AuditEntry } from '../lib/audit';
+import CollapsiblePanel from './CollapsiblePanel';
+
+interface AuditLogListProps {
+  entries: AuditEntry[];
+}
+
+const formatRecord = (record: unknown) =>
+  record === null || record === undefined ? '(none)' : JSON.stringify(record, null, 2);
+
+const AuditChangeRow: React.FC<{ change: AuditChange }> = ({ change }) => {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <>
+      <tr className="hover:bg-gray-50">
+        <td className="px-4 py-2 whitespace-nowrap">
+          <span className="action-badge action-default">{change.type.toUpperCase()}</span>
+        </td>
+        <td className="px-4 py-2 whitespace-nowrap">
+          <span className={`status-badge status-${change.status}`}>{change.status}</span>
+        </td>
+        <td className="px-4 py-2 text-sm text-gray-900">{change.label}</td>
+        <td className="px-4 py-2 text-sm">
+          {change.success === null ? (
+            <span className="text-gray-500">Not run</span>
+          ) : (
+            <span className={change.success ? 'text-green-700' : 'text-red-700'} title={change.message || ''}>
+              {change.success ? 'Applied' : 'Failed'}
+            </span>
+          )}
+        </td>
+        <td className="px-4 py-2 whitespace-nowrap text-sm">
+          <button onClick={() => setExpanded(!expanded)} className="text-blue-600 hover:text-blue-900">
+            {expanded ? 'Hide' : 'Before / After'}
+          </button>
+        </td>
+      </tr>
+      {expanded && (
+        <tr>
+          <td colSpan={5} className="px-4 py-3 bg-gray-50">
+            {change.message && <p className="text-sm text-gray-700 mb-2">{change.message}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-xs font-medium text-gray-500 uppercase mb-1">Before</h4>
+                <pre className="text-xs bg-white border border-gray-200 rounded p-2 overflow-x-auto">{formatRecord(change.before)}</pre>
+              </div>
+              <div>
+                <h4 className="text-xs font-medium text-gray-500 uppercase mb-1">After</h4>
+                <pre className="text-xs bg-white border border-gray-200 rounded p-2 overflow-x-auto">{formatRecord(change.after)}</pre>
+              </div>
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
+
+const AuditLogList: React.FC<AuditLogListProps> = ({ entries }) => {
+  if (entries.length === 0) {
+    return (
+      <div className="p-8 text-center text-gray-500">
+        No sync operations recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-3">
+      {entries.map((entry) => {
+        const sideName = (side: AuditEntry['target']) => side.profile || side.database;
+        const direction = entry.source
+          ? `${sideName(entry.source)} → ${sideName(entry.target)}`
+          : sideName(entry.target);
+        const outcome = entry.error
+          ? `error: ${entry.error}`
+          : entry.rolledBack
+            ? 'rolled back'
+            : `${entry.summary.successful} applied, ${entry.summary.failed} failed`;
+
+        return (
+          <CollapsiblePanel
+            key={entry.id}
+            title={`${new Date(entry.timestamp).toLocaleString()} · ${entry.operation} by ${entry.actor} · ${direction} · ${outcome}`}
+          >
+            <div className="text-sm text-gray-600 mb-3 space-y-1">
+              {entry.source && (
+                <div>Source: {entry.source.server} / {entry.source.database} ({entry.source.type})</div>
+              )}
+              <div>Target: {entry.target.server} / {entry.target.database} ({entry.target.type})</div>
+              {entry.atomic && entry.operation === 'sync' && <div>All-or-nothing sync</div>}
+              {entry.snapshotId && <div>Snapshot: {entry.snapshotId}</div>}
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Details</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entry.changes.map((change) => (
+                    <AuditChangeRow key={change.key} change={change} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CollapsiblePanel>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AuditLogList;
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import RecordSection from './RecordSection';
+
+interface ContentSectionProps {
+  sourceProfile: string;
+  targetProfile: string;
+}
+
+const ContentSection: React.FC<ContentSectionProps> = ({ sourceProfile, targetProfile }) => {
+  const [collections, setCollections] = useState<string[]>([]);
+  const [selectedCollections, setSelectedCollections] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const fetchCollections = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ source: sourceProfile, target: targetProfile });
+        const response = await fetch(`/api/collections?${params}`);
+        const result = await response.json();
+
+        if (result.success) {
+          setCollections(result.data);
+        } else {
+          toast.error(`Failed to load collections: ${result.message}`);
+        }
+      } catch (error) {
+        toast.error(`Failed to load collections: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCollections();
+  }, [sourceProfile, targetProfile]);
+
+  const toggleCollection = (collection: string) => {
+    setSelectedCollections(prev => prev.includes(collection)
+      ? prev.filter(c => c !== collection)
+      : [...prev, collection].sort());
+  };
+
+  return (
+    <div>
+      <div className="card p-4 mb-6">
+        <h3 className="text-lg font-semibold mb-1">Collections</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Pick the collections whose items should be compared, typically lookup tables such as countries,
+          categories or feature flags. Rows are matched by primary key and read in pages, so large tables are fine.
+        </p>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading collections...</p>
+        ) : collections.length === 0 ? (
+          <p className="text-sm text-gray-500">No user collections exist in both databases.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {collections.map((collection) => (
+              <label key={collection} className="flex items-center text-sm">
+                <input
+                  type="checkbox"
+                  checked={selectedCollections.includes(collection)}
+                  onChange={() => toggleCollection(collection)}
+                  className="rounded border-gray-300 mr-2"
+                />
+                <span className="font-mono">{collection}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selectedCollections.length > 0 && (
+        <RecordSection
+          key={selectedCollections.join(',')}
+          section="content"
+          title="Content"
+          sourceProfile={sourceProfile}
+          targetProfile={targetProfile}
+          query={{ collections: selectedCollections.join(',') }}
+          syncable
+        />
+      )}
+    </div>
+  );
+};
+
+export default ContentSection;
@@ -1,14 +1,26 @@
 import React from 'react';
+import { diffJson, parseJsonValue } from '../lib/json-diff';
 import { PermissionDiff } from '../lib/permissions';
+import { RecordDiff } from '../lib/records';
 import CollapsiblePanel from './CollapsiblePanel';
+import JsonDiff from './JsonDiff';
 
 interface DiffViewerProps {
-  diff: PermissionDiff;
+  diff: PermissionDiff | RecordDiff;
   onClose: () => void;
-  sidesFlipped?: boolean;
 }
 
-const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = false }) => {
+const isPermissionDiff = (diff: PermissionDiff | RecordDiff): diff is PermissionDiff => 'sourcePermission' in diff;
+
+const JSON_RULE_KEYS = ['permissions', 'validation', 'presets'];
+
+// JSON record columns, such as a preset's layout_query, are diffed path by path too
+const isJsonColumn = (source: unknown, target: unknown) => {
+  const values = [source, target].map(parseJsonValue);
+  return values.every(value => value === null || typeof value === 'object') && values.some(value => value !== null);
+};
+
+const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose }) => {
   const normalizeFields = (fieldsString: string | null): string | null => {
     if (!fieldsString) return fieldsString;
     return fieldsString
@@ -43,7 +55,6 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
     const source = formatFieldsList(sourceFields);
     const target = formatFieldsList(targetFields);
     
-    // Backend already handles flipping by swapping the actual data in sourcePermission/targetPermission
     // Sync direction: source -> target
     // So "added" = fields in source that will be added to target (fields in source not in target)
     // And "removed" = fields in target that will be removed (fields in target not in source)
@@ -53,6 +64,52 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
     return { added, removed, common };
   };
 
+  const formatRecordValue = (value: any): string => {
+    if (value === null || value === undefined) return 'null';
+    if (typeof value === 'object') return JSON.stringify(value, null, 2);
+    if (typeof value === 'string') {
+      const trimmed = value.trim();
+      if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+        try {
+          return JSON.stringify(JSON.parse(trimmed), null, 2);
+        } catch {
+          return value;
+        }
+      }
+    }
+    return String(value);
+  };
+
+  const formatRecordData = (record: Record<string, any> | null) => {
+    if (!record) return 'None';
+    return JSON.stringify(record, null, 2);
+  };
+
+  const renderRecordChange = (sourceValue: any, targetValue: any) => (
+    isJsonColumn(sourceValue, targetValue) ? (
+      <JsonDiff source={sourceValue} target={targetValue} />
+    ) : (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <span className="text-sm text-blue-600 font-medium">Source:</span>
+          <div className="bg-blue-50 border border-blue-200 rounded p-3 mt-1">
+            <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words overflow-x-auto">
+              {formatRecordValue(sourceValue)}
+            </pre>
+          </div>
+        </div>
+        <div>
+          <span className="text-sm text-orange-600 font-medium">Target:</span>
+          <div className="bg-orange-50 border border-orange-200 rounded p-3 mt-1">
+            <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words overflow-x-auto">
+              {formatRecordValue(targetValue)}
+            </pre>
+          </div>
+        </div>
+      </div>
+    )
+  );
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'added':
@@ -72,9 +129,13 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
         <div className="p-6 border-b border-gray-200">
           <div className="flex justify-between items-center">
             <div>
-              <h2 className="text-xl font-semibold text-gray-900">Permission Diff</h2>
+              <h2 className="text-xl font-semibold text-gray-900 capitalize">
+                {isPermissionDiff(diff) ? 'Permission' : diff.type} Diff
+              </h2>
               <p className="text-sm text-gray-600 mt-1">
-                {diff.collection} → {diff.action} → {diff.policy_name}
+                {isPermissionDiff(diff)
+                  ? `${diff.collection} → ${diff.action} → ${diff.policy_name}`
+                  : `${diff.group ? `${diff.group} → ` : ''}${diff.label}`}
               </p>
             </div>
             <div className="flex items-center gap-3">
@@ -92,7 +153,52 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
         </div>
 
         <div className="p-6 overflow-y-auto max-h-[calc(90vh-120px)]">
-          {diff.status === 'modified' && diff.sourcePermission && diff.targetPermission && (
+          {!isPermissionDiff(diff) && diff.status === 'modified' && diff.source && diff.target && (
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-3">Detailed Changes</h3>
+              <div className="space-y-4">
+                {/* Pseudo-columns such as a flow's `operations` are shown below */}
+                {diff.changes.filter(column => column in diff.source! || column in diff.target!).map((column) => (
+                  <div key={column} className="bg-gray-50 rounded p-4">
+                    <div className="font-medium text-gray-900 mb-3">{column}</div>
+                    {renderRecordChange(diff.source?.[column], diff.target?.[column])}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!isPermissionDiff(diff) && diff.children?.some(child => child.status !== 'identical') && (
+            <div className="mt-6">
+              <h3 className="font-semibold text-gray-900 mb-3 capitalize">Changed {diff.children[0].type}s</h3>
+              <div className="space-y-4">
+                {diff.children.filter(child => child.status !== 'identical').map((child) => (
+                  <div key={child.key} className="bg-gray-50 rounded p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <span className={`status-badge status-${child.status}`}>{child.status}</span>
+                      <span className="font-medium text-gray-900">{child.label}</span>
+                    </div>
+                    {child.status === 'modified' ? (
+                      <div className="space-y-3">
+                        {child.changes.map((column) => (
+                          <div key={column}>
+                            <div className="text-sm font-medium text-gray-700 mb-1">{column}</div>
+                            {renderRecordChange(child.source?.[column], child.target?.[column])}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words overflow-x-auto bg-white border border-gray-200 rounded p-2">
+                        {formatRecordData(child.source || child.target)}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isPermissionDiff(diff) && diff.status === 'modified' && diff.sourcePermission && diff.targetPermission && (
             <div>
               <h3 className="font-semibold text-gray-900 mb-3">Detailed Changes</h3>
               <div className="space-y-4">
@@ -103,7 +209,11 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
                   const normalizedSource = key === 'fields' ? normalizeFields(sourceValue) : sourceValue;
                   const normalizedTarget = key === 'fields' ? normalizeFields(targetValue) : targetValue;
                   
-                  if (normalizedSource !== normalizedTarget && key !== 'id') {
+                  const hasChanges = JSON_RULE_KEYS.includes(key)
+                    ? diffJson(sourceValue, targetValue).length > 0
+                    : normalizedSource !== normalizedTarget;
+                  
+                  if (hasChanges && key !== 'id') {
                     return (
                       <div key={key} className="bg-gray-50 rounded p-4">
                         <div className="font-medium text-gray-900 mb-3 capitalize">{key}</div>
@@ -118,7 +228,6 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
                               const fieldComparison = compareFields(normalizedSource, normalizedTarget);
                               return (
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                                  {/* Backend already swaps the data when flipped, so always show source in Source column and target in Target column */}
                                   <div>
                                     <span className="text-sm text-blue-600 font-medium">Source Fields:</span>
                                     <div className="bg-blue-50 border border-blue-200 rounded p-3 mt-1">
@@ -194,18 +303,21 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
                               return null;
                             })()}
                           </div>
+                        ) : JSON_RULE_KEYS.includes(key) ? (
+                          // Filter rules are compared path by path rather than as text
+                          <div className="space-y-3">
+                            <div className="text-xs text-gray-500">
+                              Target value → value after sync. ➕ only on source, ➖ only on target.
+                            </div>
+                            <JsonDiff source={sourceValue} target={targetValue} />
+                          </div>
                         ) : (
                           // Default handling for other fields
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                            {/* Backend already swaps the data when flipped, so always show source in Source column and target in Target column */}
                             <div>
                               <span className="text-sm text-blue-600 font-medium">Source:</span>
                               <div className="bg-blue-50 border border-blue-200 rounded p-3 mt-1">
-                                {key === 'permissions' || key === 'validation' || key === 'presets' ? (
-                                  <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words overflow-x-auto">
-                                    {sourceValue ? JSON.stringify(JSON.parse(sourceValue), null, 2) : 'null'}
-                                  </pre>
-                                ) : key === 'fields' ? (
+                                {key === 'fields' ? (
                                   <code className="text-sm text-gray-800">{normalizeFields(sourceValue) || 'null'}</code>
                                 ) : (
                                   <code className="text-sm text-gray-800">{sourceValue || 'null'}</code>
@@ -215,11 +327,7 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
                             <div>
                               <span className="text-sm text-orange-600 font-medium">Target:</span>
                               <div className="bg-orange-50 border border-orange-200 rounded p-3 mt-1">
-                                {key === 'permissions' || key === 'validation' || key === 'presets' ? (
-                                  <pre className="text-xs text-gray-800 whitespace-pre-wrap break-words overflow-x-auto">
-                                    {targetValue ? JSON.stringify(JSON.parse(targetValue), null, 2) : 'null'}
-                                  </pre>
-                                ) : key === 'fields' ? (
+                                {key === 'fields' ? (
                                   <code className="text-sm text-gray-800">{normalizeFields(targetValue) || 'null'}</code>
                                 ) : (
                                   <code className="text-sm text-gray-800">{targetValue || 'null'}</code>
@@ -238,17 +346,16 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
           )}
 
           <CollapsiblePanel 
-            title="Full Permission Data" 
+            title={isPermissionDiff(diff) ? 'Full Permission Data' : 'Full Record Data'}
             className="mt-6"
             defaultExpanded={false}
           >
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Backend already swaps the data when flipped, so always show source in Source column and target in Target column */}
               <div className={`border-2 rounded-lg p-4 ${getStatusColor(diff.status)}`}>
                 <h4 className="font-semibold text-gray-900 mb-3">Source (Left)</h4>
                 <div className="bg-white rounded border p-3">
                   <pre className="text-sm text-gray-800 whitespace-pre-wrap break-words overflow-x-auto">
-                    {formatPermissionData(diff.sourcePermission)}
+                    {isPermissionDiff(diff) ? formatPermissionData(diff.sourcePermission) : formatRecordData(diff.source)}
                   </pre>
                 </div>
               </div>
@@ -257,7 +364,7 @@ const DiffViewer: React.FC<DiffViewerProps> = ({ diff, onClose, sidesFlipped = f
                 <h4 className="font-semibold text-gray-900 mb-3">Target (Right)</h4>
                 <div className="bg-white rounded border p-3">
                   <pre className="text-sm text-gray-800 whitespace-pre-wrap break-words overflow-x-auto">
-                    {formatPermissionData(diff.targetPermission)}
+                    {isPermissionDiff(diff) ? formatPermissionData(diff.targetPermission) : formatRecordData(diff.target)}
                   </pre>
                 </div>
               </div>
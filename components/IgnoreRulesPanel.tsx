@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { IgnoreRule, NewIgnoreRule } from '../lib/ignore';
+import { MERGE_COLUMNS, MergeColumnName } from '../lib/merge';
+import CollapsiblePanel from './CollapsiblePanel';
+
+interface IgnoreRulesPanelProps {
+  rules: IgnoreRule[];
+  onAdd: (rule: NewIgnoreRule) => void;
+  onRemove: (id: string) => void;
+  saving?: boolean;
+}
+
+const EMPTY_RULE = { collection: '', action: '', policy: '', comment: '' };
+
+const IgnoreRulesPanel: React.FC<IgnoreRulesPanelProps> = ({
+  rules,
+  onAdd,
+  onRemove,
+  saving = false,
+}) => {
+  const [draft, setDraft] = useState(EMPTY_RULE);
+  const [columns, setColumns] = useState<MergeColumnName[]>([]);
+
+  const hasPattern = Boolean(draft.collection || draft.action || draft.policy);
+
+  const toggleColumn = (column: MergeColumnName) => {
+    setColumns(prev => prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]);
+  };
+
+  const handleAdd = () => {
+    onAdd({
+      ...(draft.collection ? { collection: draft.collection } : {}),
+      ...(draft.action ? { action: draft.action } : {}),
+      ...(draft.policy ? { policy: draft.policy } : {}),
+      ...(columns.length > 0 ? { columns } : {}),
+      ...(draft.comment ? { comment: draft.comment } : {}),
+    });
+    setDraft(EMPTY_RULE);
+    setColumns([]);
+  };
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <CollapsiblePanel title={`Ignore Rules (${rules.length})`} className="card mb-6">
+      <p className="text-sm text-gray-600 mb-4">
+        Permissions matching a rule are left out of comparisons and syncs. Patterns accept <code>*</code> and <code>?</code>;
+        an empty pattern matches everything. Pick columns to ignore only those parts of the matching permissions.
+      </p>
+
+      {rules.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Collection', 'Action', 'Policy', 'Ignores', 'Comment', 'Added', ''].map((heading) => (
+                  <th key={heading} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.map((rule) => (
+                <tr key={rule.id}>
+                  <td className="px-3 py-2 text-sm font-mono text-gray-900">{rule.collection || '*'}</td>
+                  <td className="px-3 py-2 text-sm font-mono text-gray-900">{rule.action || '*'}</td>
+                  <td className="px-3 py-2 text-sm font-mono text-gray-900">{rule.policy || '*'}</td>
+                  <td className="px-3 py-2 text-sm text-gray-600">{rule.columns?.join(', ') || 'whole permission'}</td>
+                  <td className="px-3 py-2 text-sm text-gray-600">{rule.comment || '-'}</td>
+                  <td className="px-3 py-2 text-xs text-gray-500 whitespace-nowrap">
+                    {new Date(rule.createdAt).toLocaleString()} by {rule.createdBy}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => onRemove(rule.id)}
+                      disabled={saving}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <input
+          className={inputClass}
+          placeholder="Collection, e.g. directus_*"
+          value={draft.collection}
+          onChange={(e) => setDraft({ ...draft, collection: e.target.value })}
+        />
+        <input
+          className={inputClass}
+          placeholder="Action, e.g. read"
+          value={draft.action}
+          onChange={(e) => setDraft({ ...draft, action: e.target.value })}
+        />
+        <input
+          className={inputClass}
+          placeholder="Policy name"
+          value={draft.policy}
+          onChange={(e) => setDraft({ ...draft, policy: e.target.value })}
+        />
+        <input
+          className={inputClass}
+          placeholder="Comment (optional)"
+          value={draft.comment}
+          onChange={(e) => setDraft({ ...draft, comment: e.target.value })}
+        />
+      </div>
+      <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <span className="text-gray-500">Only ignore:</span>
+          {MERGE_COLUMNS.map((column) => (
+            <label key={column} className="flex items-center">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300 mr-1"
+                checked={columns.includes(column)}
+                onChange={() => toggleColumn(column)}
+              />
+              {column}
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={handleAdd}
+          disabled={saving || (!hasPattern && columns.length === 0)}
+          className="btn btn-secondary text-sm px-3 py-1"
+        >
+          Add Rule
+        </button>
+      </div>
+    </CollapsiblePanel>
+  );
+};
+
+export default IgnoreRulesPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { diffJson, formatJsonValue, JsonChange } from '../lib/json-diff';
+
+interface JsonDiffProps {
+  source: unknown;
+  target: unknown;
+}
+
+const CHANGE_STYLES: Record<JsonChange['type'], { row: string; symbol: string }> = {
+  added: { row: 'bg-green-50 border-green-200 text-green-800', symbol: '➕' },
+  removed: { row: 'bg-red-50 border-red-200 text-red-800', symbol: '➖' },
+  changed: { row: 'bg-yellow-50 border-yellow-200 text-yellow-900', symbol: '✏️' },
+};
+
+const JsonDiff: React.FC<JsonDiffProps> = ({ source, target }) => {
+  const changes = diffJson(source, target);
+
+  if (changes.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 italic">
+        No differences in content (formatting or key order only)
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-1">
+      {changes.map((change) => {
+        const style = CHANGE_STYLES[change.type];
+        return (
+          <li key={`${change.type}:${change.path}`} className={`border rounded px-3 py-2 text-xs font-mono break-words ${style.row}`}>
+            <span className="mr-2">{style.symbol}</span>
+            <span className="font-semibold">{change.path || '(root)'}</span>
+            {': '}
+            {change.type === 'added' && formatJsonValue(change.to)}
+            {change.type === 'removed' && formatJsonValue(change.from)}
+            {change.type === 'changed' && `${formatJsonValue(change.from)} → ${formatJsonValue(change.to)}`}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default JsonDiff;
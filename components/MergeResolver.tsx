@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { parseJsonValue } from '../lib/json-diff';
+import { MergeColumn, MergeColumnName, splitFields } from '../lib/merge';
+import { Permission, PermissionDiff } from '../lib/permissions';
+
+interface MergeResolverProps {
+  diff: PermissionDiff;
+  onResolve: (key: string, mergedPermission: Permission) => void;
+  onClose: () => void;
+}
+
+type Side = 'source' | 'target';
+
+const formatValue = (value: string | null) => {
+  const parsed = parseJsonValue(value);
+  return parsed === null ? 'null' : typeof parsed === 'string' ? parsed : JSON.stringify(parsed, null, 2);
+};
+
+const MergeResolver: React.FC<MergeResolverProps> = ({ diff, onResolve, onClose }) => {
+  const columns = diff.merge?.columns || [];
+  const fieldsColumn = columns.find(column => column.column === 'fields');
+
+  // Conflicting rule columns start unresolved; the fields list starts from the automatic merge
+  const [choices, setChoices] = useState<Partial<Record<MergeColumnName, Side>>>({});
+  const [fields, setFields] = useState<string[]>(
+    splitFields(diff.mergedPermission?.fields ?? fieldsColumn?.merged ?? diff.sourcePermission?.fields ?? null)
+  );
+
+  const allFields = Array.from(new Set([
+    ...splitFields(fieldsColumn?.base ?? null),
+    ...splitFields(fieldsColumn?.source ?? null),
+    ...splitFields(fieldsColumn?.target ?? null),
+  ])).sort();
+
+  const unresolved = columns.filter(column => column.conflict && column.column !== 'fields' && !choices[column.column]);
+
+  const toggleField = (field: string) => {
+    setFields(prev => prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field].sort());
+  };
+
+  const resolve = () => {
+    const merged: Permission = { ...diff.sourcePermission! };
+    columns.forEach((column: MergeColumn) => {
+      if (column.column === 'fields') {
+        merged.fields = fields.length > 0 ? fields.join(',') : null;
+      } else {
+        const choice = choices[column.column];
+        merged[column.column] = choice ? column[choice] : column.merged;
+      }
+    });
+    onResolve(diff.key, merged);
+  };
+
+  const fieldOrigin = (field: string) => {
+    const inSide = (value: string | null | undefined) => splitFields(value ?? null).includes(field);
+    const sides = [
+      inSide(fieldsColumn?.base) && 'baseline',
+      inSide(fieldsColumn?.source) && 'source',
+      inSide(fieldsColumn?.target) && 'target',
+    ].filter(Boolean);
+    return `In ${sides.join(', ')}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-hidden">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Resolve Merge</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {diff.collection} → {diff.action} → {diff.policy_name}
+              </p>
+            </div>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">
+              ×
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[calc(90vh-200px)] space-y-4">
+          {columns.map((column) => (
+            <div key={column.column} className="bg-gray-50 rounded p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div className="font-medium text-gray-900 capitalize">{column.column}</div>
+                {column.conflict && column.column !== 'fields' ? (
+                  <span className="status-badge status-removed">conflict</span>
+                ) : (
+                  <span className="text-xs text-gray-500">merged automatically</span>
+                )}
+              </div>
+
+              {column.column === 'fields' ? (
+                <div className="flex flex-wrap gap-2">
+                  {allFields.map((field) => (
+                    <label
+                      key={field}
+                      className="flex items-center px-2 py-1 text-xs rounded bg-white border border-gray-200"
+                      title={fieldOrigin(field)}
+                    >
+                      <input
+                        type="checkbox"
+                        className="rounded border-gray-300 mr-1"
+                        checked={fields.includes(field)}
+                        onChange={() => toggleField(field)}
+                      />
+                      {field}
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {(['base', 'source', 'target'] as const).map((version) => {
+                    const selectable = column.conflict && version !== 'base';
+                    const selected = selectable && choices[column.column] === version;
+                    return (
+                      <div key={version}>
+                        <label className="flex items-center text-sm font-medium text-gray-700 mb-1">
+                          {selectable && (
+                            <input
+                              type="radio"
+                              name={`merge-${column.column}`}
+                              className="mr-2"
+                              checked={selected}
+                              onChange={() => setChoices(prev => ({ ...prev, [column.column]: version }))}
+                            />
+                          )}
+                          {version === 'base' ? 'Baseline' : version === 'source' ? 'Source' : 'Target'}
+                        </label>
+                        <pre className={`text-xs text-gray-800 whitespace-pre-wrap break-words overflow-x-auto bg-white border rounded p-2 ${
+                          selected ? 'border-blue-500' : 'border-gray-200'
+                        }`}>
+                          {formatValue(column[version])}
+                        </pre>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+          <span className="text-sm text-gray-600">
+            {unresolved.length > 0
+              ? `Choose a side for: ${unresolved.map(column => column.column).join(', ')}`
+              : 'The merged permission will be written to the target when you sync it.'}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="btn btn-secondary">Cancel</button>
+            <button onClick={resolve} disabled={unresolved.length > 0} className="btn btn-primary">
+              Use Merged Permission
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeResolver;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { MergeStatus, needsResolution } from '../lib/merge';
 import { PermissionDiff } from '../lib/permissions';
 
 interface PermissionsListProps {
@@ -6,16 +7,29 @@ interface PermissionsListProps {
   selectedDiffs: string[];
   onDiffSelect: (key: string, selected: boolean) => void;
   onViewDiff: (diff: PermissionDiff) => void;
-  sidesFlipped?: boolean;
+  onResolveMerge?: (diff: PermissionDiff) => void;
+  onIgnore?: (diff: PermissionDiff) => void;
 }
 
+const MERGE_LABELS: Record<MergeStatus, { label: string; className: string; title: string }> = {
+  'unchanged': { label: 'unchanged', className: 'status-identical', title: 'Source and target agree' },
+  'source-change': { label: 'source change', className: 'status-added', title: 'Only the source changed since the baseline; safe to sync' },
+  'target-change': { label: 'target change', className: 'status-modified', title: 'Only the target changed since the baseline; syncing would undo that change' },
+  'auto-merged': { label: 'auto-merged', className: 'status-restored', title: 'Both sides changed different parts; the sync writes the merge of both' },
+  'conflict': { label: 'conflict', className: 'status-removed', title: 'Both sides changed the same part; resolve before syncing' },
+};
+
 const PermissionsList: React.FC<PermissionsListProps> = ({
   diffs,
   selectedDiffs,
   onDiffSelect,
   onViewDiff,
-  sidesFlipped = false,
+  onResolveMerge,
+  onIgnore,
 }) => {
+  const threeWay = diffs.some(diff => diff.merge);
+  const isSelectable = (diff: PermissionDiff) => diff.status !== 'identical' && !needsResolution(diff);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'added':
@@ -64,7 +78,6 @@ const PermissionsList: React.FC<PermissionsListProps> = ({
     const sourceFields = normalizeFields(diff.sourcePermission.fields)?.split(',').filter(f => f) || [];
     const targetFields = normalizeFields(diff.targetPermission.fields)?.split(',').filter(f => f) || [];
 
-    // Backend already handles flipping by swapping the actual data in sourcePermission/targetPermission
     // Sync direction: source -> target
     // So "added" = fields in source that will be added to target (fields in source not in target)
     // And "removed" = fields in target that will be removed (fields in target not in source)
@@ -112,13 +125,12 @@ const PermissionsList: React.FC<PermissionsListProps> = ({
                   type="checkbox"
                   className="rounded border-gray-300"
                   checked={(() => {
-                    const selectableDiffs = diffs.filter(d => d.status !== 'identical');
+                    const selectableDiffs = diffs.filter(isSelectable);
                     const selectedSelectableDiffs = selectableDiffs.filter(d => selectedDiffs.includes(d.key));
                     return selectableDiffs.length > 0 && selectedSelectableDiffs.length === selectableDiffs.length;
                   })()}
                   onChange={(e) => {
-                    const nonIdenticalDiffs = diffs.filter(d => d.status !== 'identical');
-                    nonIdenticalDiffs.forEach(diff => {
+                    diffs.filter(isSelectable).forEach(diff => {
                       onDiffSelect(diff.key, e.target.checked);
                     });
                   }}
@@ -127,6 +139,11 @@ const PermissionsList: React.FC<PermissionsListProps> = ({
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Status
               </th>
+              {threeWay && (
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Merge
+                </th>
+              )}
               <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Policy
               </th>
@@ -162,7 +179,8 @@ const PermissionsList: React.FC<PermissionsListProps> = ({
                     className="rounded border-gray-300"
                     checked={selectedDiffs.includes(diff.key)}
                     onChange={(e) => onDiffSelect(diff.key, e.target.checked)}
-                    disabled={diff.status === 'identical'}
+                    disabled={!isSelectable(diff)}
+                    title={needsResolution(diff) ? 'Resolve the merge conflict first' : undefined}
                   />
                 </td>
                 <td className="px-4 py-4 whitespace-nowrap">
@@ -172,7 +190,22 @@ const PermissionsList: React.FC<PermissionsListProps> = ({
                       {diff.status}
                     </span>
                   </div>
+                  {diff.ignoredColumns && (
+                    <div className="text-xs text-gray-500 mt-1" title="Excluded by an ignore rule">
+                      ignoring {diff.ignoredColumns.join(', ')}
+                    </div>
+                  )}
                 </td>
+                {threeWay && (
+                  <td className="px-4 py-4 whitespace-nowrap">
+                    {diff.merge && (
+                      <span className={`status-badge ${MERGE_LABELS[diff.merge.status].className}`} title={MERGE_LABELS[diff.merge.status].title}>
+                        {MERGE_LABELS[diff.merge.status].label}
+                        {diff.merge.status === 'conflict' && diff.mergedPermission && ' (resolved)'}
+                      </span>
+                    )}
+                  </td>
+                )}
                 <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
                   <div>
                     <div className="font-medium">{diff.policy_name}</div>
@@ -189,7 +222,6 @@ const PermissionsList: React.FC<PermissionsListProps> = ({
                     {diff.action.toUpperCase()}
                   </span>
                 </td>
-                {/* Backend already swaps the data when flipped, so always show sourcePermission in Source column and targetPermission in Target column */}
                 <td className="px-4 py-4 text-sm text-gray-600 max-w-24">
                   <div className="truncate" title={formatPermissionSummary(diff.sourcePermission)}>
                     {formatPermissionSummary(diff.sourcePermission)}
@@ -235,6 +267,24 @@ const PermissionsList: React.FC<PermissionsListProps> = ({
                   >
                     View Diff
                   </button>
+                  {onResolveMerge && diff.merge && diff.merge.columns.length > 0 &&
+                    (diff.merge.status === 'conflict' || diff.merge.status === 'auto-merged') && (
+                    <button
+                      onClick={() => onResolveMerge(diff)}
+                      className="ml-3 text-blue-600 hover:text-blue-900"
+                    >
+                      {needsResolution(diff) ? 'Resolve' : 'Edit Merge'}
+                    </button>
+                  )}
+                  {onIgnore && (
+                    <button
+                      onClick={() => onIgnore(diff)}
+                      className="ml-3 text-gray-500 hover:text-gray-700"
+                      title="Hide this permission from future comparisons"
+                    >
+                      Ignore
+                    </button>
+                  )}
                 </td>
               </tr>
             ))}
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Policy, PolicyDiff } from '../lib/policies';
+
+interface PoliciesListProps {
+  diffs: PolicyDiff[];
+  selectedDiffs: string[];
+  onDiffSelect: (key: string, selected: boolean) => void;
+}
+
+const PoliciesList: React.FC<PoliciesListProps> = ({
+  diffs,
+  selectedDiffs,
+  onDiffSelect,
+}) => {
+  const [showIdentical, setShowIdentical] = useState(false);
+
+  const visibleDiffs = diffs.filter(d => showIdentical || d.status !== 'identical');
+  // Policies that only exist on the target are never deleted by this tool, and ambiguous
+  // ones have to be paired (or explicitly unmatched) before they can be created
+  const isSelectable = (diff: PolicyDiff) =>
+    (diff.status === 'added' && !diff.ambiguous) || diff.status === 'modified';
+
+  const formatValue = (value: Policy[keyof Policy] | undefined) => {
+    if (value === null || value === undefined || value === '') return 'null';
+    return String(value);
+  };
+
+  const formatAccessFlags = (policy: Policy | null) => {
+    if (!policy) return 'None';
+    const flags = [];
+    if (policy.admin_access) flags.push('Admin');
+    if (policy.app_access) flags.push('App');
+    if (policy.enforce_tfa) flags.push('2FA');
+    if (policy.ip_access) flags.push(`IP: ${policy.ip_access}`);
+    return flags.length > 0 ? flags.join(', ') : 'No access flags';
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Policies Comparison</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {diffs.filter(d => d.status !== 'identical').length} of {diffs.length} policies differ
+          </p>
+        </div>
+        <label className="flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showIdentical}
+            onChange={() => setShowIdentical(!showIdentical)}
+            className="rounded border-gray-300 mr-2"
+          />
+          Show identical
+        </label>
+      </div>
+
+      {visibleDiffs.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Policy</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleDiffs.map((diff) => (
+                <tr key={diff.key} className="hover:bg-gray-50">
+                  <td className="px-4 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300"
+                      checked={selectedDiffs.includes(diff.key)}
+                      onChange={(e) => onDiffSelect(diff.key, e.target.checked)}
+                      disabled={!isSelectable(diff)}
+                      title={diff.status === 'removed' ? 'Policies are never deleted from the target' : undefined}
+                    />
+                  </td>
+                  <td className="px-4 py-4 whitespace-nowrap">
+                    <span className={`status-badge status-${diff.status}`}>{diff.status}</span>
+                  </td>
+                  <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div className="font-medium">{diff.name}</div>
+                    {diff.ambiguous && (
+                      <div className="text-xs text-yellow-700">⚠️ Resolve pairing in Policy Matching first</div>
+                    )}
+                    <div className="text-xs text-gray-500 truncate max-w-32" title={diff.key}>{diff.key}</div>
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-600">{formatAccessFlags(diff.sourcePolicy)}</td>
+                  <td className="px-4 py-4 text-sm text-gray-600">{formatAccessFlags(diff.targetPolicy)}</td>
+                  <td className="px-4 py-4 text-sm text-gray-600">
+                    {diff.changes.length === 0 ? (
+                      <span className="text-gray-400">-</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {diff.changes.map((column) => (
+                          <li key={column}>
+                            <span className="font-medium text-gray-900">{column}:</span>{' '}
+                            <span className="text-red-700">{formatValue(diff.targetPolicy?.[column as keyof Policy])}</span>
+                            {' → '}
+                            <span className="text-green-700">{formatValue(diff.sourcePolicy?.[column as keyof Policy])}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="p-8 text-center text-gray-500">
+          All policies are identical.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PoliciesList;
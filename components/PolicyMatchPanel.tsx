@@ -0,0 +1,137 @@
+import React from 'react';
+import { PolicyMatch, PolicyOverrides } from '../lib/policies';
+import CollapsiblePanel from './CollapsiblePanel';
+
+interface PolicyMatchPanelProps {
+  matches: PolicyMatch[];
+  overrides: PolicyOverrides;
+  onOverrideChange: (sourceId: string, targetId: string | null | undefined) => void;
+  onApply: () => void;
+  applying?: boolean;
+}
+
+const PolicyMatchPanel: React.FC<PolicyMatchPanelProps> = ({
+  matches,
+  overrides,
+  onOverrideChange,
+  onApply,
+  applying = false,
+}) => {
+  const targetPolicies = matches
+    .filter(m => m.targetId)
+    .map(m => ({ id: m.targetId!, name: m.targetName || m.targetId! }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const sourceMatches = matches.filter(m => m.sourceId);
+  const targetOnlyMatches = matches.filter(m => !m.sourceId);
+  const ambiguousCount = matches.filter(m => m.ambiguous && !m.targetId).length;
+  const nameMatchCount = matches.filter(m => m.matchedBy === 'name').length;
+  const hasPendingOverrides = Object.keys(overrides).length > 0;
+
+  const getMatchBadge = (match: PolicyMatch) => {
+    if (match.ambiguous && !match.targetId) {
+      return <span className="status-badge status-modified">AMBIGUOUS</span>;
+    }
+    switch (match.matchedBy) {
+      case 'id':
+        return <span className="status-badge status-identical">UUID</span>;
+      case 'name':
+        return <span className="status-badge status-added">NAME</span>;
+      case 'manual':
+        return <span className="status-badge bg-blue-100 text-blue-800">MANUAL</span>;
+      default:
+        return <span className="status-badge status-removed">UNMATCHED</span>;
+    }
+  };
+
+  const getSelectValue = (match: PolicyMatch) => {
+    const sourceId = match.sourceId!;
+    if (sourceId in overrides) {
+      return overrides[sourceId] ?? '';
+    }
+    return match.targetId ?? '';
+  };
+
+  const handleChange = (match: PolicyMatch, value: string) => {
+    const sourceId = match.sourceId!;
+    const targetId = value || null;
+    // Selecting the automatic pairing again drops the override
+    if (targetId === match.targetId && match.matchedBy !== 'manual') {
+      onOverrideChange(sourceId, undefined);
+    } else {
+      onOverrideChange(sourceId, targetId);
+    }
+  };
+
+  const title = `Policy Matching (${sourceMatches.filter(m => m.targetId).length} paired` +
+    `${nameMatchCount > 0 ? `, ${nameMatchCount} by name` : ''}` +
+    `${ambiguousCount > 0 ? `, ${ambiguousCount} ambiguous` : ''})`;
+
+  return (
+    <CollapsiblePanel title={title} className="card mb-6" defaultExpanded={ambiguousCount > 0}>
+      <p className="text-sm text-gray-600 mb-4">
+        Policies are paired by UUID first, then by name. Review name-based pairings and choose a target
+        for ambiguous ones; permissions of unmatched policies are shown as added or removed.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source Policy</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Match</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target Policy</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sourceMatches.map((match) => (
+              <tr key={match.sourceId!} className={match.ambiguous && !match.targetId ? 'bg-yellow-50' : ''}>
+                <td className="px-4 py-2 text-sm text-gray-900">
+                  <div className="font-medium">{match.sourceName || 'Unnamed Policy'}</div>
+                  <div className="text-xs text-gray-500 truncate max-w-48" title={match.sourceId!}>{match.sourceId}</div>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">{getMatchBadge(match)}</td>
+                <td className="px-4 py-2 text-sm">
+                  <select
+                    value={getSelectValue(match)}
+                    onChange={(e) => handleChange(match, e.target.value)}
+                    className="w-full max-w-sm px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">— No match —</option>
+                    {targetPolicies.map((policy) => (
+                      <option key={policy.id} value={policy.id}>
+                        {match.candidates.includes(policy.id) ? '★ ' : ''}{policy.name} ({policy.id.slice(0, 8)})
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+            {targetOnlyMatches.map((match) => (
+              <tr key={`target-${match.targetId}`} className="text-gray-500">
+                <td className="px-4 py-2 text-sm italic">Not in source</td>
+                <td className="px-4 py-2 whitespace-nowrap">{getMatchBadge(match)}</td>
+                <td className="px-4 py-2 text-sm">
+                  <div className="font-medium">{match.targetName || 'Unnamed Policy'}</div>
+                  <div className="text-xs truncate max-w-48" title={match.targetId!}>{match.targetId}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <button
+          onClick={onApply}
+          disabled={applying || !hasPendingOverrides}
+          className="btn btn-primary text-sm px-3 py-1"
+        >
+          {applying ? 'Comparing...' : 'Re-compare with these pairings'}
+        </button>
+      </div>
+    </CollapsiblePanel>
+  );
+};
+
+export default PolicyMatchPanel;
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import toast from 'react-hot-toast';
+import { DiffStatus, DiffSummary, RecordDiff } from '../lib/records';
+import DiffViewer from './DiffViewer';
+import RecordsList from './RecordsList';
+import SummaryCard from './SummaryCard';
+
+interface RecordSectionProps {
+  // Value of the `section` parameter sent to /api/compare
+  section: string;
+  title: string;
+  // Connection profile names of both sides
+  sourceProfile: string;
+  targetProfile: string;
+  groupLabel?: string;
+  // Lets the user select rows and sync them to the target
+  syncable?: boolean;
+  // Extra parameters sent to /api/compare, e.g. the collections of the content section
+  query?: Record<string, string>;
+}
+
+interface RecordComparisonResult {
+  success: boolean;
+  data: RecordDiff[];
+  summary: DiffSummary;
+  message?: string;
+}
+
+const RecordSection: React.FC<RecordSectionProps> = ({
+  section,
+  title,
+  sourceProfile,
+  targetProfile,
+  groupLabel = 'Collection',
+  syncable = false,
+  query = {},
+}) => {
+  const [diffs, setDiffs] = useState<RecordDiff[]>([]);
+  const [summary, setSummary] = useState<DiffSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [selectedDiff, setSelectedDiff] = useState<RecordDiff | null>(null);
+  const [selectedType, setSelectedType] = useState('all');
+  const [selectedGroup, setSelectedGroup] = useState('all');
+  const [selectedDiffs, setSelectedDiffs] = useState<string[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [statusFilters, setStatusFilters] = useState<Record<DiffStatus, boolean>>({
+    added: true,
+    removed: true,
+    modified: true,
+    identical: false,
+  });
+
+  const fetchComparison = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ ...query, section, source: sourceProfile, target: targetProfile });
+      const response = await fetch(`/api/compare?${params}`);
+      const result: RecordComparisonResult = await response.json();
+
+      if (result.success) {
+        setDiffs(result.data);
+        setSummary(result.summary);
+        toast.success(`${title} comparison completed! Found ${result.summary.total} items`);
+      } else {
+        toast.error(`Comparison failed: ${result.message}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to fetch comparison: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDiffSelect = (key: string, selected: boolean) => {
+    setSelectedDiffs(prev => selected ? (prev.includes(key) ? prev : [...prev, key]) : prev.filter(k => k !== key));
+  };
+
+  const syncSelected = async (dryRun: boolean) => {
+    // Only sync rows that are both visible and selected, like the permissions table
+    const recordDiffs = filteredDiffs.filter(diff => selectedDiffs.includes(diff.key));
+    if (recordDiffs.length === 0) {
+      toast.error(`Please select ${title.toLowerCase()} to sync`);
+      return;
+    }
+
+    setSyncing(true);
+    try {
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ diffs: [], recordDiffs, source: sourceProfile, target: targetProfile, dryRun }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        toast.error(`${dryRun ? 'Preview' : 'Sync'} failed: ${result.message}`, { style: { whiteSpace: 'pre-line' } });
+      } else if (dryRun) {
+        const url = URL.createObjectURL(new Blob([result.sql], { type: 'application/sql' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `directus-sync-${section}-${new Date().toISOString().replace(/[:.]/g, '-')}.sql`;
+        link.click();
+        URL.revokeObjectURL(url);
+        toast.success(result.message);
+      } else {
+        toast.success(`🎉 Sync completed! ${result.summary.successful} changes synced successfully`);
+        setSelectedDiffs([]);
+        await fetchComparison();
+      }
+    } catch (error) {
+      toast.error(`Failed to sync ${title.toLowerCase()}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const availableTypes = Array.from(new Set(diffs.map(d => d.type))).sort();
+  const availableGroups = Array.from(new Set(diffs.map(d => d.group).filter(g => g))).sort();
+
+  const filteredDiffs = diffs.filter(diff =>
+    statusFilters[diff.status] &&
+    (selectedType === 'all' || diff.type === selectedType) &&
+    (selectedGroup === 'all' || diff.group === selectedGroup)
+  );
+
+  const statuses: DiffStatus[] = ['added', 'removed', 'modified', 'identical'];
+
+  return (
+    <div>
+      <div className="mb-6 flex items-center gap-4">
+        <button
+          onClick={fetchComparison}
+          disabled={loading}
+          className="btn btn-primary"
+        >
+          {loading ? 'Loading...' : `Compare ${title}`}
+        </button>
+
+        {syncable && summary && (
+          <>
+            <div className="flex-1"></div>
+            <button
+              onClick={() => syncSelected(true)}
+              disabled={syncing || selectedDiffs.length === 0}
+              className="btn btn-secondary"
+              title="Download the SQL this sync would run, without touching the target"
+            >
+              Preview SQL
+            </button>
+            <button
+              onClick={() => syncSelected(false)}
+              disabled={syncing || selectedDiffs.length === 0}
+              className="btn btn-success"
+            >
+              {syncing ? 'Syncing...' : `Sync Selected (${selectedDiffs.length})`}
+            </button>
+          </>
+        )}
+      </div>
+
+      {summary && (
+        <SummaryCard summary={summary} title={`${title} Summary`} />
+      )}
+
+      {diffs.length > 0 && (
+        <div className="card p-4 mb-6">
+          <div className="flex flex-col lg:flex-row gap-6">
+            {availableTypes.length > 1 && (
+              <div className="flex-1">
+                <h3 className="text-lg font-semibold mb-3">Filter by Type</h3>
+                <select
+                  value={selectedType}
+                  onChange={(e) => setSelectedType(e.target.value)}
+                  className="w-full max-w-sm px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="all">All Types</option>
+                  {availableTypes.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {availableGroups.length > 1 && (
+              <div className="flex-1">
+                <h3 className="text-lg font-semibold mb-3">Filter by {groupLabel}</h3>
+                <select
+                  value={selectedGroup}
+                  onChange={(e) => setSelectedGroup(e.target.value)}
+                  className="w-full max-w-sm px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="all">All ({availableGroups.length})</option>
+                  {availableGroups.map((group) => (
+                    <option key={group} value={group}>{group}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="flex-1">
+              <h3 className="text-lg font-semibold mb-3">Filter by Status</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {statuses.map((status) => (
+                  <label key={status} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={statusFilters[status]}
+                      onChange={() => setStatusFilters(prev => ({ ...prev, [status]: !prev[status] }))}
+                      className="rounded border-gray-300 mr-2"
+                    />
+                    <span className={`status-badge status-${status} mr-2`}>{status.toUpperCase()}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {summary && (
+        <RecordsList
+          title={`${title} Comparison`}
+          diffs={filteredDiffs}
+          onViewDiff={setSelectedDiff}
+          groupLabel={groupLabel}
+          selectedDiffs={syncable ? selectedDiffs : undefined}
+          onDiffSelect={syncable ? handleDiffSelect : undefined}
+        />
+      )}
+
+      {selectedDiff && (
+        <DiffViewer
+          diff={selectedDiff}
+          onClose={() => setSelectedDiff(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RecordSection;
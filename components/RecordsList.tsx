@@ -0,0 +1,135 @@
+import React from 'react';
+import { RecordDiff } from '../lib/records';
+
+interface RecordsListProps {
+  title: string;
+  diffs: RecordDiff[];
+  onViewDiff: (diff: RecordDiff) => void;
+  groupLabel?: string;
+  // Shows selection checkboxes when set, for sections that can be synced
+  selectedDiffs?: string[];
+  onDiffSelect?: (key: string, selected: boolean) => void;
+}
+
+const RecordsList: React.FC<RecordsListProps> = ({
+  title,
+  diffs,
+  onViewDiff,
+  groupLabel = 'Collection',
+  selectedDiffs = [],
+  onDiffSelect,
+}) => {
+  const selectableDiffs = diffs.filter(diff => diff.status !== 'identical');
+
+  const getStatusIcon = (status: string) => {
+    switch (status) {
+      case 'added':
+        return '➕';
+      case 'removed':
+        return '➖';
+      case 'modified':
+        return '🔄';
+      case 'identical':
+        return '✅';
+      default:
+        return '❓';
+    }
+  };
+
+  const formatChanges = (changes: string[]) => {
+    if (changes.length === 0) return '-';
+    if (changes.length <= 3) return changes.join(', ');
+    return `${changes.slice(0, 2).join(', ')}, +${changes.length - 2} more`;
+  };
+
+  return (
+    <div className="card">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          {diffs.length} items found
+        </p>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              {onDiffSelect && (
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300"
+                    checked={selectableDiffs.length > 0 && selectableDiffs.every(diff => selectedDiffs.includes(diff.key))}
+                    onChange={(e) => selectableDiffs.forEach(diff => onDiffSelect(diff.key, e.target.checked))}
+                  />
+                </th>
+              )}
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{groupLabel}</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changed Columns</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {diffs.map((diff) => (
+              <tr key={diff.key} className="hover:bg-gray-50">
+                {onDiffSelect && (
+                  <td className="px-4 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300"
+                      checked={selectedDiffs.includes(diff.key)}
+                      onChange={(e) => onDiffSelect(diff.key, e.target.checked)}
+                      disabled={diff.status === 'identical'}
+                    />
+                  </td>
+                )}
+                <td className="px-4 py-4 whitespace-nowrap">
+                  <div className="flex items-center">
+                    <span className="mr-2">{getStatusIcon(diff.status)}</span>
+                    <span className={`status-badge status-${diff.status}`}>
+                      {diff.status}
+                    </span>
+                  </div>
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap">
+                  <span className="action-badge action-default">{diff.type.toUpperCase()}</span>
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {diff.group || '-'}
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {diff.label}
+                </td>
+                <td className="px-4 py-4 text-sm text-gray-600 max-w-48">
+                  <div className="truncate" title={diff.changes.join(', ')}>
+                    {formatChanges(diff.changes)}
+                  </div>
+                </td>
+                <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
+                  <button
+                    onClick={() => onViewDiff(diff)}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    View Diff
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {diffs.length === 0 && (
+        <div className="p-8 text-center text-gray-500">
+          Nothing to show for the current filters.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordsList;
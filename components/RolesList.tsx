@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { AttachedPolicy, RoleDiff } from '../lib/roles';
+
+interface RolesListProps {
+  diffs: RoleDiff[];
+  selectedDiffs: string[];
+  onDiffSelect: (key: string, selected: boolean) => void;
+}
+
+const RolesList: React.FC<RolesListProps> = ({
+  diffs,
+  selectedDiffs,
+  onDiffSelect,
+}) => {
+  const [showIdentical, setShowIdentical] = useState(false);
+
+  const visibleDiffs = diffs.filter(d => showIdentical || d.status !== 'identical');
+  // Roles that only exist on the target are never deleted by this tool
+  const isSelectable = (diff: RoleDiff) => diff.status === 'added' || diff.status === 'modified';
+
+  const formatValue = (value: string | null | undefined) => value || 'null';
+
+  const formatPolicies = (policies: AttachedPolicy[]) => {
+    if (policies.length === 0) return '-';
+    return policies.map(p => p.name).join(', ');
+  };
+
+  const getRoleChange = (diff: RoleDiff, column: string) => {
+    if (column === 'parent') {
+      return { from: diff.targetParentName, to: diff.sourceParentName };
+    }
+    const key = column as 'name' | 'icon' | 'description';
+    return { from: diff.targetRole?.[key], to: diff.sourceRole?.[key] };
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Roles & Policy Attachments</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {diffs.filter(d => d.status !== 'identical').length} of {diffs.length} roles differ
+          </p>
+        </div>
+        <label className="flex items-center text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={showIdentical}
+            onChange={() => setShowIdentical(!showIdentical)}
+            className="rounded border-gray-300 mr-2"
+          />
+          Show identical
+        </label>
+      </div>
+
+      {visibleDiffs.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Parent</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role Changes</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Policies Attached</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Policies Detached</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {visibleDiffs.map((diff) => (
+                <tr key={diff.key} className="hover:bg-gray-50">
+                  <td className="px-4 py-4 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      className="rounded border-gray-300"
+                      checked={selectedDiffs.includes(diff.key)}
+                      onChange={(e) => onDiffSelect(diff.key, e.target.checked)}
+                      disabled={!isSelectable(diff)}
+                      title={diff.status === 'removed' ? 'Roles are never deleted from the target' : undefined}
+                    />
+                  </td>
+                  <td className="px-4 py-4 whitespace-nowrap">
+                    <span className={`status-badge status-${diff.status}`}>{diff.status}</span>
+                  </td>
+                  <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <div className="font-medium">{diff.name}</div>
+                    <div className="text-xs text-gray-500 truncate max-w-32" title={diff.key}>{diff.key}</div>
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-600">
+                    {diff.sourceParentName || diff.targetParentName || '-'}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-gray-600">
+                    {diff.changes.length === 0 ? (
+                      <span className="text-gray-400">-</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {diff.changes.map((column) => {
+                          const change = getRoleChange(diff, column);
+                          return (
+                            <li key={column}>
+                              <span className="font-medium text-gray-900">{column}:</span>{' '}
+                              <span className="text-red-700">{formatValue(change.from)}</span>
+                              {' → '}
+                              <span className="text-green-700">{formatValue(change.to)}</span>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-green-700">
+                    {diff.policies.added.length > 0 ? (
+                      <span title={formatPolicies(diff.policies.added)}>
+                        ➕ {formatPolicies(diff.policies.added)}
+                        {diff.policies.added.some(p => !p.targetPolicy) && (
+                          <span className="block text-xs text-yellow-700">⚠️ Some policies are missing on the target</span>
+                        )}
+                      </span>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-4 text-sm text-red-700">
+                    {diff.policies.removed.length > 0 ? (
+                      <span title={formatPolicies(diff.policies.removed)}>➖ {formatPolicies(diff.policies.removed)}</span>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="p-8 text-center text-gray-500">
+          All roles are identical.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RolesList;
@@ -8,12 +8,13 @@ interface SummaryCardProps {
     modified: number;
     identical: number;
   };
+  title?: string;
 }
 
-const SummaryCard: React.FC<SummaryCardProps> = ({ summary }) => {
+const SummaryCard: React.FC<SummaryCardProps> = ({ summary, title = 'Comparison Summary' }) => {
   return (
     <div className="card p-6 mb-6">
-      <h2 className="text-lg font-semibold text-gray-900 mb-4">Comparison Summary</h2>
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">{title}</h2>
       
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="text-center">
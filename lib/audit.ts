@@ -0,0 +1,163 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { IncomingHttpHeaders } from 'http';
+import os from 'os';
+import path from 'path';
+import { ConnectionInfo } from './database';
+import { getDataDir } from './storage';
+import { SyncRequest } from './sync';
+import { SyncResult } from './sync-batch';
+
+export interface AuditChange {
+  key: string;
+  // 'permission', 'policy', 'role', or the type of a record diff (e.g. 'preset')
+  type: string;
+  status: string;
+  label: string;
+  // Target record before the sync and the source record it was synced from
+  before: unknown;
+  after: unknown;
+  success: boolean | null;
+  message: string | null;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  operation: 'sync' | 'restore';
+  actor: string;
+  atomic: boolean;
+  source: ConnectionInfo | null;
+  target: ConnectionInfo;
+  snapshotId: string | null;
+  rolledBack: boolean;
+  summary: {
+    total: number;
+    successful: number;
+    failed: number;
+  };
+  changes: AuditChange[];
+  // Set when the operation aborted before producing per-change results
+  error?: string;
+}
+
+// Reverse proxies in front of the tool (oauth2-proxy, nginx auth_request, ...) pass the
+// authenticated user in one of these
+const ACTOR_HEADERS = ['x-forwarded-user', 'x-auth-request-user', 'x-remote-user', 'remote-user'];
+
+/**
+ * Identifies who triggered an operation: the proxy-authenticated user when there is one,
+ * otherwise the OS user running the tool.
+ */
+export function getActor(headers: IncomingHttpHeaders = {}): string {
+  for (const name of ACTOR_HEADERS) {
+    const value = headers[name];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+
+  try {
+    return os.userInfo().username;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Pairs every diff in a sync request with its result, keyed the same way `syncChanges` keys
+ * its results.
+ */
+export function buildAuditChanges(request: SyncRequest, results: SyncResult[]): AuditChange[] {
+  const resultsByKey = new Map(results.map(result => [result.key, result]));
+  const withResult = (key: string) => ({
+    success: resultsByKey.get(key)?.success ?? null,
+    message: resultsByKey.get(key)?.message ?? null,
+  });
+
+  return [
+    ...(request.policyDiffs || []).map(diff => ({
+      key: `policy:${diff.key}`,
+      type: 'policy' as const,
+      status: diff.status,
+      label: diff.name,
+      before: diff.targetPolicy,
+      after: diff.sourcePolicy,
+      ...withResult(`policy:${diff.key}`),
+    })),
+    ...(request.roleDiffs || []).map(diff => ({
+      key: `role:${diff.key}`,
+      type: 'role' as const,
+      status: diff.status,
+      label: diff.name,
+      before: { role: diff.targetRole, policies: [...diff.policies.unchanged, ...diff.policies.removed].map(p => p.name) },
+      after: { role: diff.sourceRole, policies: [...diff.policies.unchanged, ...diff.policies.added].map(p => p.name) },
+      ...withResult(`role:${diff.key}`),
+    })),
+    ...request.diffs.map(diff => ({
+      key: diff.key,
+      type: 'permission' as const,
+      status: diff.status,
+      label: `${diff.collection}:${diff.action} for policy ${diff.policy_name}`,
+      before: diff.targetPermission,
+      after: diff.status === 'removed' ? null : diff.mergedPermission || diff.sourcePermission,
+      ...withResult(diff.key),
+    })),
+    ...(request.recordDiffs || []).map(diff => ({
+      key: diff.key,
+      type: diff.type,
+      status: diff.status,
+      label: `${diff.group ? `${diff.group} → ` : ''}${diff.label}`,
+      before: diff.target,
+      after: diff.source,
+      ...withResult(diff.key),
+    })),
+  ];
+}
+
+/**
+ * Append-only log of every write operation, one JSON object per line, so entries survive
+ * crashes and can be shipped elsewhere with standard tools.
+ */
+export class AuditLog {
+  private filePath: string;
+
+  constructor(filePath = path.join(getDataDir(), 'audit.jsonl')) {
+    this.filePath = filePath;
+  }
+
+  async append(entry: Omit<AuditEntry, 'id' | 'timestamp'>): Promise<AuditEntry> {
+    const fullEntry: AuditEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(fullEntry) + '\n');
+    return fullEntry;
+  }
+
+  /**
+   * Returns entries newest first.
+   */
+  async list(limit?: number): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries = content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as AuditEntry)
+      .reverse();
+
+    return limit ? entries.slice(0, limit) : entries;
+  }
+}
@@ -0,0 +1,248 @@
+import { DatabaseConnection } from './database';
+import { SchemaInspector } from './introspection';
+import { DiffSummary, getChangedColumns, insertRecord, normalizeId, RecordDiff, summarizeDiffs, updateRecord } from './records';
+
+/**
+ * One row (item) of a user collection. Source and target only hold the columns both tables
+ * have, so the diff and the sync never touch columns that exist on one side only.
+ */
+export type ItemDiff = RecordDiff & {
+  type: 'item';
+  collection: string;
+  primaryKey: string;
+};
+
+export interface ContentComparison {
+  // Added, removed and modified items; identical ones are only counted in the summary
+  diffs: ItemDiff[];
+  summary: DiffSummary;
+}
+
+// Rows per page; also the size of the `IN (...)` lookup on the other side
+const PAGE_SIZE = 500;
+
+/**
+ * Thrown when a compare asks for collections that are not user collections registered on both
+ * sides, e.g. `directus_users`.
+ */
+export class ContentCollectionError extends Error {
+  constructor(collections: string[]) {
+    super(`Not a user collection on both sides: ${collections.join(', ')}`);
+    this.name = 'ContentCollectionError';
+  }
+}
+
+// Tables registered in directus_collections, leaving out Directus' own `directus_*` tables
+export async function getUserCollections(db: DatabaseConnection): Promise<string[]> {
+  const [tables, rows] = await Promise.all([
+    new SchemaInspector(db).getTables(),
+    db.queryRows<{ collection: string }>('SELECT collection FROM directus_collections'),
+  ]);
+  const registered = new Set(rows.map(row => row.collection));
+  return tables.filter(table => !table.startsWith('directus_') && registered.has(table));
+}
+
+function pick(row: Record<string, any>, columns: string[]): Record<string, any> {
+  return Object.fromEntries(columns.map(column => [column, row[column]]));
+}
+
+export class ContentComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  /**
+   * Collections whose items can be compared: tables that exist on both sides and are registered
+   * in directus_collections on both. System tables (`directus_*`) are never offered, so users,
+   * sessions and the like cannot be read or overwritten through the content sync.
+   */
+  async getCollections(): Promise<string[]> {
+    const [sourceCollections, targetCollections] = await Promise.all([
+      getUserCollections(this.sourceDb),
+      getUserCollections(this.targetDb),
+    ]);
+    return sourceCollections.filter(collection => targetCollections.includes(collection));
+  }
+
+  /**
+   * Finds the primary key of a collection on both sides through introspection. Directus items
+   * have a single-column primary key; anything else cannot be compared row by row.
+   */
+  async getPrimaryKey(collection: string): Promise<{ primaryKey: string; columns: string[] }> {
+    const [sourceColumns, targetColumns] = await Promise.all([
+      new SchemaInspector(this.sourceDb).getColumns(collection),
+      new SchemaInspector(this.targetDb).getColumns(collection),
+    ]);
+    if (sourceColumns.length === 0 || targetColumns.length === 0) {
+      throw new Error(`Collection ${collection} does not exist on the ${sourceColumns.length === 0 ? 'source' : 'target'}`);
+    }
+
+    const primaryKeys = sourceColumns.filter(column => column.is_primary_key).map(column => column.name);
+    const targetPrimaryKeys = targetColumns.filter(column => column.is_primary_key).map(column => column.name);
+    if (primaryKeys.length !== 1 || targetPrimaryKeys.length !== 1 || primaryKeys[0] !== targetPrimaryKeys[0]) {
+      throw new Error(`Collection ${collection} needs the same single-column primary key on both sides`);
+    }
+
+    const targetNames = targetColumns.map(column => column.name);
+    return {
+      primaryKey: primaryKeys[0],
+      columns: sourceColumns.map(column => column.name).filter(name => targetNames.includes(name)),
+    };
+  }
+
+  /**
+   * Compares the given collections after checking that each one is offered by `getCollections`;
+   * unknown collections are rejected with a `ContentCollectionError` before any row is read.
+   */
+  async compareCollections(collections: string[]): Promise<ContentComparison> {
+    const available = await this.getCollections();
+    const unknown = collections.filter(collection => !available.includes(collection));
+    if (unknown.length > 0) {
+      throw new ContentCollectionError(unknown);
+    }
+
+    const diffs: ItemDiff[] = [];
+    let identical = 0;
+
+    for (const collection of collections) {
+      const result = await this.compareCollection(collection);
+      diffs.push(...result.diffs);
+      identical += result.summary.identical;
+    }
+
+    const summary = summarizeDiffs(diffs);
+    return { diffs, summary: { ...summary, total: summary.total + identical, identical } };
+  }
+
+  /**
+   * Diffs the items of one collection page by page: each source page is looked up on the target
+   * by primary key (added / modified / identical), then each target page on the source
+   * (removed). Lookups by key rather than a merge of two sorted streams keep the result
+   * independent of how each dialect collates string keys.
+   */
+  async compareCollection(collection: string): Promise<ContentComparison> {
+    const { primaryKey, columns } = await this.getPrimaryKey(collection);
+    const keyOf = (row: Record<string, any>) => String(normalizeId(row[primaryKey]));
+    const diffs: ItemDiff[] = [];
+    let identical = 0;
+
+    const toDiff = (source: Record<string, any> | null, target: Record<string, any> | null): ItemDiff => {
+      const row = (source || target)!;
+      const changes = source && target ? getChangedColumns(source, target) : [];
+      return {
+        key: `item:${collection}:${keyOf(row)}`,
+        type: 'item',
+        label: keyOf(row),
+        group: collection,
+        source,
+        target,
+        changes,
+        status: !target ? 'added' : !source ? 'removed' : changes.length > 0 ? 'modified' : 'identical',
+        collection,
+        primaryKey,
+      };
+    };
+
+    for await (const page of this.sourceDb.streamRows(collection, primaryKey, PAGE_SIZE)) {
+      const targetRows = await this.targetDb.queryRowsByKey(collection, primaryKey, page.map(row => row[primaryKey]));
+      const targetByKey = new Map(targetRows.map(row => [keyOf(row), row]));
+
+      page.forEach(row => {
+        const target = targetByKey.get(keyOf(row));
+        const diff = toDiff(pick(row, columns), target ? pick(target, columns) : null);
+        if (diff.status === 'identical') {
+          identical++;
+        } else {
+          diffs.push(diff);
+        }
+      });
+    }
+
+    for await (const page of this.targetDb.streamRows(collection, primaryKey, PAGE_SIZE)) {
+      const sourceRows = await this.sourceDb.queryRowsByKey(collection, primaryKey, page.map(row => row[primaryKey]));
+      const sourceKeys = new Set(sourceRows.map(keyOf));
+      page
+        .filter(row => !sourceKeys.has(keyOf(row)))
+        .forEach(row => diffs.push(toDiff(null, pick(row, columns))));
+    }
+
+    const summary = summarizeDiffs(diffs);
+    return { diffs, summary: { ...summary, total: summary.total + identical, identical } };
+  }
+
+  /**
+   * Applies one item diff to the target: removed items are deleted, new ones inserted with
+   * their primary key (see `insertItem`), and modified ones get only their changed columns
+   * updated.
+   */
+  async syncItem(diff: ItemDiff): Promise<void> {
+    const { collection, primaryKey } = diff;
+
+    if (!diff.source) {
+      await this.targetDb.query('DELETE FROM ?? WHERE ?? = ?', [collection, primaryKey, diff.target![primaryKey]]);
+      return;
+    }
+
+    if (!diff.target) {
+      await this.insertItem(collection, primaryKey, diff.source);
+      return;
+    }
+
+    await updateRecord(
+      this.targetDb,
+      collection,
+      pick(diff.source, diff.changes),
+      { [primaryKey]: diff.target[primaryKey] }
+    );
+  }
+
+  /**
+   * Inserts an item with its source primary key. MSSQL refuses explicit values for an identity
+   * column unless IDENTITY_INSERT is on, and PostgreSQL does not move a serial or identity
+   * column's sequence past them, so later inserts in Directus would hit duplicate keys. MySQL
+   * and SQLite advance their counters on their own.
+   */
+  private async insertItem(collection: string, primaryKey: string, row: Record<string, any>): Promise<void> {
+    const type = this.targetDb.getConnectionInfo().type;
+
+    if (type === 'mssql') {
+      const [{ is_identity }] = await this.targetDb.queryRows<{ is_identity: number | null }>(
+        "SELECT COLUMNPROPERTY(OBJECT_ID(?), ?, 'IsIdentity') AS is_identity",
+        [collection, primaryKey]
+      );
+      if (is_identity === 1) {
+        // IDENTITY_INSERT is per session, so keep all three statements on one connection
+        await this.targetDb.transaction(async trxDb => {
+          await trxDb.query('SET IDENTITY_INSERT ?? ON', [collection]);
+          await insertRecord(trxDb, collection, row);
+          await trxDb.query('SET IDENTITY_INSERT ?? OFF', [collection]);
+        });
+        return;
+      }
+    }
+
+    await insertRecord(this.targetDb, collection, row);
+
+    if (type === 'pg') {
+      const [{ sequence }] = await this.targetDb.queryRows<{ sequence: string | null }>(
+        'SELECT pg_get_serial_sequence(?, ?) AS sequence',
+        [collection, primaryKey]
+      );
+      const key = Number(row[primaryKey]);
+      if (!sequence || !Number.isSafeInteger(key)) return;
+
+      const [{ last_value }] = await this.targetDb.queryRows<{ last_value: string | null }>(
+        'SELECT pg_sequence_last_value(CAST(? AS regclass)) AS last_value',
+        [sequence]
+      );
+      if (last_value === null || Number(last_value) < key) {
+        // ALTER SEQUENCE takes no bind parameters; the name comes quoted from pg_get_serial_sequence
+        await this.targetDb.query(`ALTER SEQUENCE ${sequence} RESTART WITH ${key + 1}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import { DatabaseConnection } from './database';
+import { pairPolicies } from './policies';
+import { compareRecords, insertRecord, normalizeId, omitColumns, RecordDiff, updateRecord } from './records';
+
+// A row of directus_dashboards (Insights)
+export interface Dashboard extends Record<string, any> {
+  id: string;
+  name: string | null;
+}
+
+// A row of directus_panels, placed on its dashboard's grid by position_x/position_y
+export interface Panel extends Record<string, any> {
+  id: string;
+  dashboard: string;
+  type: string;
+  position_x: number;
+  position_y: number;
+}
+
+export type DashboardDiff = RecordDiff<Dashboard> & {
+  type: 'dashboard';
+  children: RecordDiff<Panel>[];
+};
+
+const DASHBOARD_IGNORED_COLUMNS = ['id', 'date_created', 'user_created'];
+const PANEL_IGNORED_COLUMNS = ['id', 'dashboard', 'date_created', 'user_created'];
+
+export class DashboardComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async getDashboards(db: DatabaseConnection): Promise<Dashboard[]> {
+    const rows = await db.queryRows<Dashboard>('SELECT * FROM directus_dashboards ORDER BY name');
+    return rows.map(row => ({ ...row, id: normalizeId(row.id) }));
+  }
+
+  async getPanels(db: DatabaseConnection): Promise<Panel[]> {
+    const rows = await db.queryRows<Panel>('SELECT * FROM directus_panels ORDER BY dashboard, position_y, position_x');
+    return rows.map(row => ({ ...row, id: normalizeId(row.id), dashboard: normalizeId(row.dashboard) }));
+  }
+
+  /**
+   * Pairs dashboards by UUID, then by unique name. Panels pair by UUID when both sides have
+   * it (e.g. copies of the same instance), otherwise by type and grid position, since panels
+   * created by hand on each environment share nothing else.
+   */
+  async compareDashboards(): Promise<DashboardDiff[]> {
+    const [sourceDashboards, targetDashboards] = await Promise.all([
+      this.getDashboards(this.sourceDb),
+      this.getDashboards(this.targetDb),
+    ]);
+    const [sourcePanels, targetPanels] = await Promise.all([
+      this.getPanels(this.sourceDb),
+      this.getPanels(this.targetDb),
+    ]);
+
+    const sourceToTargetDashboard = new Map<string, string>();
+    pairPolicies(sourceDashboards, targetDashboards).forEach(match => {
+      if (match.sourceId && match.targetId) {
+        sourceToTargetDashboard.set(match.sourceId, match.targetId);
+      }
+    });
+
+    const dashboardDiffs = compareRecords(sourceDashboards, targetDashboards, {
+      type: 'dashboard',
+      getKey: dashboard => sourceToTargetDashboard.get(dashboard.id) ?? dashboard.id,
+      getLabel: dashboard => dashboard.name || dashboard.id,
+      ignoreColumns: DASHBOARD_IGNORED_COLUMNS,
+    });
+
+    return dashboardDiffs.map(diff => {
+      const name = diff.source?.name || diff.target?.name || '';
+      const panelsOf = (panels: Panel[], dashboard: Dashboard | null) =>
+        dashboard ? panels.filter(panel => panel.dashboard === dashboard.id) : [];
+      const source = panelsOf(sourcePanels, diff.source);
+      const target = panelsOf(targetPanels, diff.target);
+
+      const targetIds = new Set(target.map(panel => panel.id));
+      const sharedIds = new Set(source.map(panel => panel.id).filter(id => targetIds.has(id)));
+      const children = compareRecords(source, target, {
+        type: 'panel',
+        getKey: panel => sharedIds.has(panel.id) ? panel.id : `${panel.type}@${panel.position_x},${panel.position_y}`,
+        getLabel: panel => `${panel.name || panel.type} (${panel.position_x}, ${panel.position_y})`,
+        getGroup: () => name,
+        ignoreColumns: PANEL_IGNORED_COLUMNS,
+      });
+
+      const panelsChanged = children.some(child => child.status !== 'identical');
+      if (diff.status === 'identical' && panelsChanged) {
+        return { ...diff, type: 'dashboard' as const, status: 'modified' as const, changes: ['panels'], children };
+      }
+      return {
+        ...diff,
+        type: 'dashboard' as const,
+        changes: panelsChanged && diff.status === 'modified' ? [...diff.changes, 'panels'] : diff.changes,
+        children,
+      };
+    });
+  }
+
+  /**
+   * Makes the target dashboard match the source, panels included: panels missing from the
+   * source are deleted, new ones are created and paired ones are updated in place.
+   */
+  async syncDashboard(diff: DashboardDiff): Promise<void> {
+    const children = diff.children as RecordDiff<Panel>[];
+
+    if (!diff.source) {
+      await this.targetDb.query('DELETE FROM directus_panels WHERE dashboard = ?', [diff.target!.id]);
+      await this.targetDb.query('DELETE FROM directus_dashboards WHERE id = ?', [diff.target!.id]);
+      return;
+    }
+
+    const dashboardId = diff.target?.id ?? diff.source.id;
+    const dashboardValues = omitColumns(diff.source, DASHBOARD_IGNORED_COLUMNS);
+
+    if (!diff.target) {
+      await insertRecord(this.targetDb, 'directus_dashboards', { id: dashboardId, ...dashboardValues });
+    } else if (diff.changes.some(column => column !== 'panels')) {
+      await updateRecord(this.targetDb, 'directus_dashboards', dashboardValues, { id: dashboardId });
+    }
+
+    for (const child of children) {
+      if (child.status === 'identical') {
+        continue;
+      }
+      if (!child.source) {
+        await this.targetDb.query('DELETE FROM directus_panels WHERE id = ?', [child.target!.id]);
+        continue;
+      }
+
+      const values = { ...omitColumns(child.source, PANEL_IGNORED_COLUMNS), dashboard: dashboardId };
+      if (child.target) {
+        await updateRecord(this.targetDb, 'directus_panels', values, { id: child.target.id });
+      } else {
+        await insertRecord(this.targetDb, 'directus_panels', { id: child.source.id, ...values });
+      }
+    }
+  }
+}
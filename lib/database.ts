@@ -1,7 +1,10 @@
 import { Knex, knex } from 'knex';
+import { loadInstanceSnapshot, readInstanceSnapshot } from './instance-snapshot';
 
 export interface DatabaseConfig {
   type: 'mssql' | 'mysql' | 'pg' | 'sqlite3';
+  // Name of the connection profile this config came from
+  profile?: string;
   host?: string;
   port?: number;
   database?: string;
@@ -9,12 +12,23 @@ export interface DatabaseConfig {
   password?: string;
   ssl?: boolean;
   filename?: string;
+  // Instance snapshot file served read-only from an in-memory SQLite database
+  snapshotFile?: string;
+}
+
+export interface ConnectionInfo {
+  server: string;
+  database: string;
+  type: DatabaseConfig['type'] | 'snapshot';
+  profile?: string;
 }
 
 export class DatabaseConnection {
   private knexInstance: Knex | null = null;
   private config: DatabaseConfig;
   private isConnecting = false;
+  // Set on dry-run views: write statements are recorded here instead of being executed
+  private recordedStatements: string[] | null = null;
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -95,8 +109,16 @@ export class DatabaseConnection {
       const knexConfig = this.createKnexConfig();
       this.knexInstance = knex(knexConfig);
       
-      // Test the connection
-      await this.knexInstance.raw('SELECT 1');
+      if (this.config.snapshotFile) {
+        await loadInstanceSnapshot(this.knexInstance, await readInstanceSnapshot(this.config.snapshotFile));
+      } else {
+        // Test the connection
+        await this.knexInstance.raw('SELECT 1');
+      }
+    } catch (error) {
+      await this.knexInstance?.destroy();
+      this.knexInstance = null;
+      throw error;
     } finally {
       this.isConnecting = false;
     }
@@ -109,11 +131,16 @@ export class DatabaseConnection {
     }
   }
 
-  getConnectionInfo() {
+  getConnectionInfo(): ConnectionInfo {
+    if (this.config.snapshotFile) {
+      return { server: 'snapshot', database: this.config.snapshotFile, type: 'snapshot', profile: this.config.profile };
+    }
+
     return {
       server: this.config.host || this.config.filename || 'unknown',
       database: this.config.database || this.config.filename || 'unknown',
       type: this.config.type,
+      profile: this.config.profile,
     };
   }
 
@@ -135,6 +162,15 @@ export class DatabaseConnection {
     if (!this.knexInstance) {
       throw new Error('Database connection is not available');
     }
+
+    if (this.recordedStatements && !isReadStatement(queryText)) {
+      this.recordedStatements.push(this.knexInstance.raw(queryText, params ?? []).toQuery());
+      return [];
+    }
+
+    if (this.config.snapshotFile && !isReadStatement(queryText)) {
+      throw new Error(`${this.config.snapshotFile} is a snapshot file and cannot be written to`);
+    }
     
     if (params && params.length > 0) {
       return await this.knexInstance.raw(queryText, params);
@@ -143,6 +179,106 @@ export class DatabaseConnection {
     }
   }
 
+  async queryRows<T = any>(queryText: string, params?: any[]): Promise<T[]> {
+    const result = await this.query(queryText, params);
+    
+    // Handle different result structures from different database drivers
+    if (result.recordset) {
+      // MSSQL returns recordset
+      return result.recordset;
+    } else if (result.rows) {
+      // PostgreSQL returns rows
+      return result.rows;
+    } else if (Array.isArray(result)) {
+      // MySQL returns [rows, fields], SQLite returns rows directly
+      return this.config.type === 'mysql' && Array.isArray(result[0]) ? result[0] : result;
+    } else {
+      // Handle other cases
+      return result;
+    }
+  }
+
+  /**
+   * Reads a whole table in pages ordered by `keyColumn`. Pages are fetched with keyset
+   * pagination (`WHERE key > last key`), so only one page is held in memory at a time and deep
+   * pages cost no more than the first one.
+   */
+  async *streamRows<T = Record<string, any>>(table: string, keyColumn: string, pageSize = 500): AsyncGenerator<T[]> {
+    await this.connect();
+
+    let lastKey: unknown = undefined;
+    while (true) {
+      const query = this.knexInstance!(table).select('*').orderBy(keyColumn).limit(pageSize);
+      if (lastKey !== undefined) {
+        query.where(keyColumn, '>', lastKey);
+      }
+
+      const rows: T[] = await query;
+      if (rows.length > 0) {
+        yield rows;
+      }
+      if (rows.length < pageSize) {
+        return;
+      }
+      lastKey = (rows[rows.length - 1] as Record<string, unknown>)[keyColumn];
+    }
+  }
+
+  // Rows of a table whose `keyColumn` is one of the given values, e.g. the other side of a page
+  async queryRowsByKey<T = Record<string, any>>(table: string, keyColumn: string, keys: unknown[]): Promise<T[]> {
+    if (keys.length === 0) return [];
+    await this.connect();
+    return this.knexInstance!(table).select('*').whereIn(keyColumn, keys as any[]);
+  }
+
+  /**
+   * Runs the callback inside a single transaction. The callback receives a connection bound to
+   * the transaction; it commits when the callback resolves and rolls back when it throws.
+   */
+  async transaction<T>(callback: (trxDb: DatabaseConnection) => Promise<T>): Promise<T> {
+    if (this.recordedStatements) {
+      return callback(this);
+    }
+
+    await this.connect();
+
+    if (!this.knexInstance) {
+      throw new Error('Database connection is not available');
+    }
+
+    return this.knexInstance.transaction(async trx => {
+      const trxDb = new DatabaseConnection(this.config);
+      trxDb.knexInstance = trx;
+      return callback(trxDb);
+    });
+  }
+
+  /**
+   * Runs the callback against a dry-run view of this connection. Reads still hit the database,
+   * but every write is rendered with its bound parameters in this dialect and recorded instead
+   * of executed. Returns the recorded statements in execution order.
+   */
+  async dryRun(callback: (dryRunDb: DatabaseConnection) => Promise<void>): Promise<string[]> {
+    await this.connect();
+
+    const dryRunDb = new DatabaseConnection(this.config);
+    dryRunDb.knexInstance = this.knexInstance;
+    dryRunDb.recordedStatements = [];
+    await callback(dryRunDb);
+    return dryRunDb.recordedStatements;
+  }
+
+  /**
+   * Adds a comment line to the dry-run script. No-op on a regular connection.
+   */
+  annotate(comment: string): void {
+    this.recordedStatements?.push(`-- ${comment}`);
+  }
+
+  isSnapshot(): boolean {
+    return Boolean(this.config.snapshotFile);
+  }
+
   getKnexInstance(): Knex {
     if (!this.knexInstance) {
       throw new Error('Database not connected. Call connect() first.');
@@ -151,11 +287,27 @@ export class DatabaseConnection {
   }
 }
 
-function createDatabaseConfig(prefix: 'SOURCE' | 'TARGET'): DatabaseConfig | null {
-  const dbType = process.env.DB_TYPE as DatabaseConfig['type'];
+function isReadStatement(queryText: string): boolean {
+  return /^\s*(SELECT|WITH|PRAGMA)\b/i.test(queryText);
+}
+
+export const DATABASE_TYPES: DatabaseConfig['type'][] = ['mssql', 'mysql', 'pg', 'sqlite3'];
+
+/**
+ * Builds a config from `${prefix}_DB_*` environment variables. The dialect comes from
+ * `${prefix}_DB_TYPE`, falling back to the shared `DB_TYPE`, so each side can use a different
+ * database engine.
+ */
+export function createDatabaseConfig(prefix: string): DatabaseConfig | null {
+  const dbType = (process.env[`${prefix}_DB_TYPE`] || process.env.DB_TYPE) as DatabaseConfig['type'];
   
   if (!dbType) {
-    console.error('DB_TYPE environment variable is required');
+    console.error(`${prefix}_DB_TYPE or DB_TYPE environment variable is required`);
+    return null;
+  }
+
+  if (!DATABASE_TYPES.includes(dbType)) {
+    console.error(`Unsupported database type for ${prefix}: ${dbType}`);
     return null;
   }
 
@@ -193,47 +345,3 @@ function createDatabaseConfig(prefix: 'SOURCE' | 'TARGET'): DatabaseConfig | nul
     ssl: sslStr === 'true',
   };
 }
-
-// Create database connections only if environment variables are set
-let sourceDb: DatabaseConnection | null = null;
-let targetDb: DatabaseConnection | null = null;
-
-try {
-  const sourceConfig = createDatabaseConfig('SOURCE');
-  if (sourceConfig) {
-    sourceDb = new DatabaseConnection(sourceConfig);
-  }
-} catch (error) {
-  console.error('Error creating source database connection:', error);
-  sourceDb = null;
-}
-
-try {
-  const targetConfig = createDatabaseConfig('TARGET');
-  if (targetConfig) {
-    targetDb = new DatabaseConnection(targetConfig);
-  }
-} catch (error) {
-  console.error('Error creating target database connection:', error);
-  targetDb = null;
-}
-
-export { sourceDb, targetDb };
-
-export function getSourceDb(flipped = false): DatabaseConnection | null {
-  return flipped ? targetDb : sourceDb;
-}
-
-export function getTargetDb(flipped = false): DatabaseConnection | null {
-  return flipped ? sourceDb : targetDb;
-}
-
-export function getConnectionInfo(flipped = false) {
-  const source = getSourceDb(flipped);
-  const target = getTargetDb(flipped);
-  
-  return {
-    source: source ? source.getConnectionInfo() : null,
-    target: target ? target.getConnectionInfo() : null,
-  };
-}
\ No newline at end of file
@@ -0,0 +1,225 @@
+import { DatabaseConnection } from './database';
+import { pairPolicies } from './policies';
+import { compareRecords, insertRecord, normalizeId, omitColumns, RecordDiff, updateRecord } from './records';
+
+/**
+ * A row of directus_flows. `operation` is the first operation of the flow's chain; in diffs it
+ * holds that operation's `key` rather than its ID (see `FlowComparator.compareFlows`).
+ */
+export interface Flow extends Record<string, any> {
+  id: string;
+  name: string | null;
+  operation: string | null;
+}
+
+/**
+ * A row of directus_operations. `resolve` and `reject` point at the next operation on success
+ * and failure; in diffs they hold operation keys, which are unique within a flow and stable
+ * across instances, instead of UUIDs.
+ */
+export interface Operation extends Record<string, any> {
+  id: string;
+  key: string;
+  flow: string;
+  resolve: string | null;
+  reject: string | null;
+}
+
+export type FlowDiff = RecordDiff<Flow> & {
+  type: 'flow';
+  children: RecordDiff<Operation>[];
+};
+
+// Instance-specific: IDs, links (compared by key instead) and who created the row when
+const FLOW_IGNORED_COLUMNS = ['id', 'date_created', 'user_created'];
+const OPERATION_IGNORED_COLUMNS = ['id', 'flow', 'date_created', 'user_created'];
+
+/**
+ * Orders operations so that every operation comes after the ones its `resolve` and `reject`
+ * point to. Inserting in this order keeps the foreign keys between operations valid.
+ */
+export function orderOperations<T extends Pick<Operation, 'key' | 'resolve' | 'reject'>>(operations: T[]): T[] {
+  const ordered: T[] = [];
+  const placed = new Set<string>();
+  let remaining = [...operations];
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(operation =>
+      [operation.resolve, operation.reject].every(next => !next || placed.has(next)));
+    if (ready.length === 0) {
+      throw new Error(`Operations ${remaining.map(operation => `"${operation.key}"`).join(', ')} form a cycle or point to missing operations`);
+    }
+    ready.forEach(operation => {
+      ordered.push(operation);
+      placed.add(operation.key);
+    });
+    remaining = remaining.filter(operation => !placed.has(operation.key));
+  }
+
+  return ordered;
+}
+
+export class FlowComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async getFlows(db: DatabaseConnection): Promise<Flow[]> {
+    const rows = await db.queryRows<Flow>('SELECT * FROM directus_flows ORDER BY name');
+    return rows.map(row => ({ ...row, id: normalizeId(row.id), operation: normalizeId(row.operation) }));
+  }
+
+  async getOperations(db: DatabaseConnection): Promise<Operation[]> {
+    const rows = await db.queryRows<Operation>('SELECT * FROM directus_operations ORDER BY flow, key');
+    return rows.map(row => ({
+      ...row,
+      id: normalizeId(row.id),
+      flow: normalizeId(row.flow),
+      resolve: normalizeId(row.resolve),
+      reject: normalizeId(row.reject),
+    }));
+  }
+
+  /**
+   * Pairs flows by UUID, then by unique name, and compares each flow's operations as a graph:
+   * operations pair by key and their links are compared by the keys they point to, so a
+   * chain rebuilt with new UUIDs still compares equal.
+   */
+  async compareFlows(): Promise<FlowDiff[]> {
+    const [sourceFlows, targetFlows] = await Promise.all([this.getFlows(this.sourceDb), this.getFlows(this.targetDb)]);
+    const [sourceOperations, targetOperations] = await Promise.all([
+      this.getOperations(this.sourceDb),
+      this.getOperations(this.targetDb),
+    ]);
+
+    const sourceToTargetFlow = new Map<string, string>();
+    pairPolicies(sourceFlows, targetFlows).forEach(match => {
+      if (match.sourceId && match.targetId) {
+        sourceToTargetFlow.set(match.sourceId, match.targetId);
+      }
+    });
+
+    const withKeys = (flows: Flow[], operations: Operation[]) => {
+      const keyById = new Map(operations.map(operation => [operation.id, operation.key]));
+      const toKey = (id: string | null) => id ? keyById.get(id) ?? id : null;
+      return {
+        flows: flows.map((flow): Flow => ({ ...flow, operation: toKey(flow.operation) })),
+        operations: operations.map((operation): Operation => ({ ...operation, resolve: toKey(operation.resolve), reject: toKey(operation.reject) })),
+      };
+    };
+    const source = withKeys(sourceFlows, sourceOperations);
+    const target = withKeys(targetFlows, targetOperations);
+
+    const flowDiffs = compareRecords(source.flows, target.flows, {
+      type: 'flow',
+      getKey: flow => sourceToTargetFlow.get(flow.id) ?? flow.id,
+      getLabel: flow => flow.name || flow.id,
+      getGroup: flow => flow.trigger || '',
+      ignoreColumns: FLOW_IGNORED_COLUMNS,
+    });
+
+    return flowDiffs.map(diff => {
+      const name = diff.source?.name || diff.target?.name || '';
+      const children = compareRecords(
+        diff.source ? source.operations.filter(operation => operation.flow === diff.source!.id) : [],
+        diff.target ? target.operations.filter(operation => operation.flow === diff.target!.id) : [],
+        {
+          type: 'operation',
+          getKey: operation => operation.key,
+          getLabel: operation => operation.name ? `${operation.name} (${operation.key})` : operation.key,
+          getGroup: () => name,
+          ignoreColumns: OPERATION_IGNORED_COLUMNS,
+        }
+      );
+
+      const operationsChanged = children.some(child => child.status !== 'identical');
+      if (diff.status === 'identical' && operationsChanged) {
+        return { ...diff, type: 'flow' as const, status: 'modified' as const, changes: ['operations'], children };
+      }
+      return {
+        ...diff,
+        type: 'flow' as const,
+        changes: operationsChanged && diff.status === 'modified' ? [...diff.changes, 'operations'] : diff.changes,
+        children,
+      };
+    });
+  }
+
+  /**
+   * Makes the target flow match the source, including its whole operation chain. Links are
+   * cleared before operations are removed or relinked, and operations are written leaves first,
+   * so no statement ever points at a missing operation.
+   */
+  async syncFlow(diff: FlowDiff): Promise<void> {
+    const children = diff.children as RecordDiff<Operation>[];
+    const targetOperations = children.filter(child => child.target).map(child => child.target!);
+
+    if (!diff.source) {
+      await this.unlinkOperations(diff.target!.id);
+      await this.deleteOperations(targetOperations);
+      await this.targetDb.query('DELETE FROM directus_flows WHERE id = ?', [diff.target!.id]);
+      return;
+    }
+
+    const flowId = diff.target?.id ?? diff.source.id;
+    const flowValues = omitColumns(diff.source, [...FLOW_IGNORED_COLUMNS, 'operation']);
+
+    if (!diff.target) {
+      // The first operation does not exist yet; it is set once the chain is in place
+      await insertRecord(this.targetDb, 'directus_flows', { id: flowId, ...flowValues, operation: null });
+    } else if (diff.changes.some(column => column !== 'operation' && column !== 'operations')) {
+      await updateRecord(this.targetDb, 'directus_flows', flowValues, { id: flowId });
+    }
+
+    const chainChanged = !diff.target || diff.changes.includes('operation') || diff.changes.includes('operations');
+    if (!chainChanged) {
+      return;
+    }
+
+    if (diff.target) {
+      await this.unlinkOperations(flowId);
+      await this.deleteOperations(children.filter(child => child.status === 'removed').map(child => child.target!));
+    }
+
+    // Operations already on the target keep their ID; new ones get the source's
+    const idByKey = new Map(children
+      .filter(child => child.source)
+      .map(child => [child.source!.key, child.target?.id ?? child.source!.id]));
+    const targetIdByKey = new Map(targetOperations.map(operation => [operation.key, operation.id]));
+    const toId = (key: string | null) => key ? idByKey.get(key) ?? null : null;
+
+    const sourceOperations = children.filter(child => child.source).map(child => child.source!);
+    for (const operation of orderOperations(sourceOperations)) {
+      const values = {
+        ...omitColumns(operation, OPERATION_IGNORED_COLUMNS),
+        flow: flowId,
+        resolve: toId(operation.resolve),
+        reject: toId(operation.reject),
+      };
+      const targetId = targetIdByKey.get(operation.key);
+      if (targetId) {
+        await updateRecord(this.targetDb, 'directus_operations', values, { id: targetId });
+      } else {
+        await insertRecord(this.targetDb, 'directus_operations', { id: operation.id, ...values });
+      }
+    }
+
+    await this.targetDb.query('UPDATE directus_flows SET operation = ? WHERE id = ?', [toId(diff.source.operation), flowId]);
+  }
+
+  // Detaches the flow's first operation and every link between its operations
+  private async unlinkOperations(flowId: string): Promise<void> {
+    await this.targetDb.query('UPDATE directus_flows SET operation = NULL WHERE id = ?', [flowId]);
+    await this.targetDb.query('UPDATE directus_operations SET resolve = NULL, reject = NULL WHERE flow = ?', [flowId]);
+  }
+
+  private async deleteOperations(operations: Operation[]): Promise<void> {
+    for (const operation of operations) {
+      await this.targetDb.query('DELETE FROM directus_operations WHERE id = ?', [operation.id]);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { DatabaseConnection } from './database';
+import { compareRecords, insertRecord, normalizeId, RecordDiff } from './records';
+
+// A row of directus_folders, the tree of the file library
+export interface Folder extends Record<string, any> {
+  id: string;
+  name: string;
+  parent: string | null;
+}
+
+export type FolderDiff = RecordDiff<Folder> & {
+  type: 'folder';
+  // Slash-separated names from the root, e.g. "Images/Products"; folders pair by path
+  path: string;
+  parentPath: string | null;
+};
+
+/**
+ * Resolves every folder's path by walking up its parents. A parent that is missing (or a loop)
+ * ends the walk, so broken trees still get a path instead of failing the comparison.
+ */
+export function getFolderPaths(folders: Folder[]): Map<string, string> {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const paths = new Map<string, string>();
+
+  folders.forEach(folder => {
+    const names: string[] = [];
+    const seen = new Set<string>();
+    let current: Folder | undefined = folder;
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      names.unshift(current.name);
+      current = current.parent ? byId.get(current.parent) : undefined;
+    }
+    paths.set(folder.id, names.join('/'));
+  });
+
+  return paths;
+}
+
+function getParentPath(path: string): string | null {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? null : path.slice(0, index);
+}
+
+/**
+ * Orders folder diffs so that removed folders go before their parents and new folders after
+ * theirs, which keeps every `parent` reference valid while syncing. Removals run first so a
+ * folder that moved between copies of the same instance can be recreated with its old ID.
+ */
+export function sortFolderDiffs(diffs: FolderDiff[]): FolderDiff[] {
+  const depth = (diff: FolderDiff) => diff.path.split('/').length;
+  return [
+    ...diffs.filter(diff => !diff.source).sort((a, b) => depth(b) - depth(a)),
+    ...diffs.filter(diff => diff.source).sort((a, b) => depth(a) - depth(b)),
+  ];
+}
+
+export class FolderComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async getFolders(db: DatabaseConnection): Promise<Folder[]> {
+    const rows = await db.queryRows<Folder>('SELECT * FROM directus_folders ORDER BY name');
+    return rows.map(row => ({ ...row, id: normalizeId(row.id), parent: normalizeId(row.parent) }));
+  }
+
+  /**
+   * Compares the folder trees by path, so folders created by hand on each environment match
+   * when they have the same place in the tree. The path is the whole identity of a folder;
+   * there is nothing else to differ, so folders are only ever added, removed or identical.
+   */
+  async compareFolders(): Promise<FolderDiff[]> {
+    const [sourceFolders, targetFolders] = await Promise.all([
+      this.getFolders(this.sourceDb),
+      this.getFolders(this.targetDb),
+    ]);
+    const sourcePaths = getFolderPaths(sourceFolders);
+    const targetPaths = getFolderPaths(targetFolders);
+    // Keyed by row, since copies of the same instance share folder IDs with different paths
+    const paths = new Map([
+      ...sourceFolders.map(folder => [folder, sourcePaths.get(folder.id)!] as const),
+      ...targetFolders.map(folder => [folder, targetPaths.get(folder.id)!] as const),
+    ]);
+    const getPath = (folder: Folder) => paths.get(folder)!;
+
+    const diffs = compareRecords(sourceFolders, targetFolders, {
+      type: 'folder',
+      getKey: getPath,
+      getLabel: getPath,
+      getGroup: folder => getPath(folder).split('/')[0],
+      ignoreColumns: ['id', 'parent'],
+    });
+
+    return diffs.map(diff => {
+      const path = getPath((diff.source || diff.target)!);
+      return { ...diff, type: 'folder' as const, path, parentPath: getParentPath(path) };
+    });
+  }
+
+  /**
+   * Creates or deletes one folder on the target. `createdFolders` maps the paths of folders
+   * created earlier in the same batch to their IDs, so a new subtree can be synced in one go
+   * (see `sortFolderDiffs`).
+   */
+  async syncFolder(diff: FolderDiff, createdFolders: Map<string, string> = new Map()): Promise<void> {
+    if (!diff.source) {
+      await this.targetDb.query('DELETE FROM directus_folders WHERE id = ?', [diff.target!.id]);
+      return;
+    }
+    if (diff.target) {
+      return;
+    }
+
+    let parent: string | null = null;
+    if (diff.parentPath) {
+      const targetFolders = await this.getFolders(this.targetDb);
+      const targetPaths = getFolderPaths(targetFolders);
+      parent = createdFolders.get(diff.parentPath)
+        ?? targetFolders.find(folder => targetPaths.get(folder.id) === diff.parentPath)?.id
+        ?? null;
+      if (!parent) {
+        throw new Error(`Parent folder ${diff.parentPath} does not exist on the target`);
+      }
+    }
+
+    await insertRecord(this.targetDb, 'directus_folders', { id: diff.source.id, name: diff.source.name, parent });
+    createdFolders.set(diff.path, diff.source.id);
+  }
+}
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import path from 'path';
+import { MERGE_COLUMNS, MergeColumnName } from './merge';
+import { getDataDir, readJsonFile, writeJsonFile } from './storage';
+
+/**
+ * Excludes permissions from comparison. `collection`, `action` and `policy` (the policy name)
+ * are glob patterns (`*` and `?`, case-insensitive); a missing pattern matches everything.
+ * Without `columns` the matching permissions are left out entirely; with `columns` they are
+ * still compared, but differences in those columns are ignored and never synced.
+ */
+export interface IgnoreRule {
+  id: string;
+  collection?: string;
+  action?: string;
+  policy?: string;
+  columns?: MergeColumnName[];
+  comment?: string;
+  createdAt: string;
+  createdBy: string;
+}
+
+export type NewIgnoreRule = Omit<IgnoreRule, 'id' | 'createdAt' | 'createdBy'>;
+
+interface IgnoreTarget {
+  collection: string;
+  action: string;
+  policy_name: string | null;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function matchesGlob(pattern: string | undefined, value: string | null): boolean {
+  return !pattern || globToRegExp(pattern).test(value ?? '');
+}
+
+export function matchesIgnoreRule(rule: IgnoreRule, permission: IgnoreTarget): boolean {
+  return matchesGlob(rule.collection, permission.collection) &&
+    matchesGlob(rule.action, permission.action) &&
+    matchesGlob(rule.policy, permission.policy_name);
+}
+
+/**
+ * Returns `true` when a rule hides the permission entirely, otherwise the columns to ignore.
+ */
+export function getIgnoredColumns(rules: IgnoreRule[], permission: IgnoreTarget): true | MergeColumnName[] {
+  const matching = rules.filter(rule => matchesIgnoreRule(rule, permission));
+  if (matching.some(rule => !rule.columns || rule.columns.length === 0)) {
+    return true;
+  }
+  return Array.from(new Set(matching.flatMap(rule => rule.columns!)));
+}
+
+export function validateIgnoreRule(rule: Partial<NewIgnoreRule>): NewIgnoreRule {
+  const patterns = (['collection', 'action', 'policy'] as const).filter(key => rule[key] !== undefined && rule[key] !== '');
+  patterns.forEach(key => {
+    if (typeof rule[key] !== 'string') {
+      throw new Error(`${key} must be a glob pattern string`);
+    }
+  });
+  if (rule.columns !== undefined && (!Array.isArray(rule.columns) || rule.columns.some(column => !MERGE_COLUMNS.includes(column)))) {
+    throw new Error(`columns must be a list of: ${MERGE_COLUMNS.join(', ')}`);
+  }
+  if (patterns.length === 0 && !rule.columns?.length) {
+    throw new Error('A rule needs a collection, action or policy pattern, or columns to ignore');
+  }
+
+  return {
+    ...Object.fromEntries(patterns.map(key => [key, rule[key]])),
+    ...(rule.columns?.length ? { columns: rule.columns } : {}),
+    ...(rule.comment ? { comment: String(rule.comment) } : {}),
+  };
+}
+
+/**
+ * Ignore rules, persisted as one JSON file so they apply to the UI, the API and the CLI alike.
+ */
+export class IgnoreStore {
+  private filePath: string;
+
+  constructor(filePath = path.join(getDataDir(), 'ignore.json')) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<IgnoreRule[]> {
+    return (await readJsonFile<IgnoreRule[]>(this.filePath)) || [];
+  }
+
+  async add(rule: NewIgnoreRule, createdBy: string): Promise<IgnoreRule> {
+    const rules = await this.list();
+    const fullRule: IgnoreRule = {
+      id: crypto.randomUUID(),
+      ...rule,
+      createdAt: new Date().toISOString(),
+      createdBy,
+    };
+    await writeJsonFile(this.filePath, [...rules, fullRule]);
+    return fullRule;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const rules = await this.list();
+    const remaining = rules.filter(rule => rule.id !== id);
+    if (remaining.length === rules.length) {
+      return false;
+    }
+    await writeJsonFile(this.filePath, remaining);
+    return true;
+  }
+}
@@ -0,0 +1,150 @@
+import fsSync from 'fs';
+import fs from 'fs/promises';
+import { Knex } from 'knex';
+import path from 'path';
+import YAML from 'yaml';
+import { ConnectionInfo, DatabaseConnection } from './database';
+import { readPolicyDirectory } from './policy-files';
+
+export const INSTANCE_SNAPSHOT_FORMAT = 'directus-compare-snapshot';
+export const INSTANCE_SNAPSHOT_VERSION = 1;
+
+// Everything the comparators read, exported verbatim
+export const SNAPSHOT_TABLES = [
+  'directus_policies',
+  'directus_permissions',
+  'directus_roles',
+  'directus_access',
+  'directus_collections',
+  'directus_fields',
+  'directus_relations',
+  'directus_presets',
+  'directus_flows',
+  'directus_operations',
+  'directus_dashboards',
+  'directus_panels',
+  'directus_settings',
+  'directus_translations',
+  'directus_folders',
+];
+
+export interface SnapshotTable {
+  columns: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface InstanceSnapshot {
+  format: typeof INSTANCE_SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: string;
+  source: ConnectionInfo;
+  tables: Record<string, SnapshotTable>;
+}
+
+export type SnapshotFileFormat = 'json' | 'yaml';
+
+export function getSnapshotFileFormat(filePath: string): SnapshotFileFormat {
+  return /\.ya?ml$/i.test(filePath) ? 'yaml' : 'json';
+}
+
+/**
+ * Whether a CLI argument names a snapshot rather than a profile: a .json/.yaml snapshot file or
+ * a directory of policy files.
+ */
+export function isSnapshotPath(value: string): boolean {
+  if (/\.(json|ya?ml)$/i.test(value)) return true;
+  try {
+    return fsSync.statSync(value).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Dates and driver-specific types become plain JSON so both file formats round-trip them
+function toPlainValue(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('base64');
+  return value;
+}
+
+/**
+ * Reads every Directus system table the comparators use into a snapshot that can be written
+ * to a file and later compared against like a live database.
+ */
+export async function exportInstanceSnapshot(db: DatabaseConnection): Promise<InstanceSnapshot> {
+  await db.connect();
+  const knex = db.getKnexInstance();
+  const tables: Record<string, SnapshotTable> = {};
+
+  for (const table of SNAPSHOT_TABLES) {
+    const columns = Object.keys(await knex(table).columnInfo());
+    const rows = await db.queryRows(`SELECT * FROM ${table}`);
+    tables[table] = {
+      columns,
+      rows: rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [key, toPlainValue(value)]))),
+    };
+  }
+
+  return {
+    format: INSTANCE_SNAPSHOT_FORMAT,
+    version: INSTANCE_SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: db.getConnectionInfo(),
+    tables,
+  };
+}
+
+export function formatInstanceSnapshot(snapshot: InstanceSnapshot, format: SnapshotFileFormat): string {
+  return format === 'yaml' ? YAML.stringify(snapshot) : JSON.stringify(snapshot, null, 2) + '\n';
+}
+
+export function parseInstanceSnapshot(content: string, format: SnapshotFileFormat): InstanceSnapshot {
+  const snapshot = format === 'yaml' ? YAML.parse(content) : JSON.parse(content);
+
+  if (snapshot?.format !== INSTANCE_SNAPSHOT_FORMAT || typeof snapshot.tables !== 'object') {
+    throw new Error('Not a directus-compare instance snapshot');
+  }
+  if (typeof snapshot.version !== 'number' || snapshot.version > INSTANCE_SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${snapshot.version}; this tool reads up to version ${INSTANCE_SNAPSHOT_VERSION}`);
+  }
+  return snapshot;
+}
+
+/**
+ * Reads a snapshot file, or a directory of policy files (see `exportPolicyFiles`).
+ */
+export async function readInstanceSnapshot(filePath: string): Promise<InstanceSnapshot> {
+  if ((await fs.stat(filePath)).isDirectory()) {
+    return readPolicyDirectory(filePath);
+  }
+
+  const content = await fs.readFile(filePath, 'utf8');
+  try {
+    return parseInstanceSnapshot(content, getSnapshotFileFormat(filePath));
+  } catch (error) {
+    throw new Error(`Could not read snapshot ${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Recreates the snapshot's tables in an (in-memory) SQLite database, so the comparators can
+ * query it with the same SQL they use against live instances. Columns are left untyped;
+ * SQLite keeps each value's own type.
+ */
+export async function loadInstanceSnapshot(knex: Knex, snapshot: InstanceSnapshot): Promise<void> {
+  for (const [table, { columns, rows }] of Object.entries(snapshot.tables)) {
+    if (columns.length === 0) continue;
+    await knex.raw(`CREATE TABLE ?? (${columns.map(() => '??').join(', ')})`, [table, ...columns]);
+
+    const values = rows.map(row => Object.fromEntries(columns.map(column => {
+      const value = row[column] ?? null;
+      // PostgreSQL exports json columns as objects; everywhere else they are text
+      return [column, typeof value === 'object' && value !== null ? JSON.stringify(value) : value];
+    })));
+    // Stay under SQLite's limit of 999 bound parameters per statement
+    const chunkSize = Math.max(1, Math.floor(999 / columns.length));
+    for (let i = 0; i < values.length; i += chunkSize) {
+      await knex(table).insert(values.slice(i, i + chunkSize));
+    }
+  }
+}
@@ -0,0 +1,408 @@
+import { Knex } from 'knex';
+import { DatabaseConnection } from './database';
+import { compareRecords, RecordDiff } from './records';
+
+export interface ColumnInfo {
+  table: string;
+  name: string;
+  data_type: string;
+  max_length: number | null;
+  numeric_precision: number | null;
+  numeric_scale: number | null;
+  is_nullable: boolean;
+  default_value: string | null;
+  is_primary_key: boolean;
+}
+
+export interface IndexInfo {
+  table: string;
+  name: string;
+  // Comma separated, in index order
+  columns: string;
+  is_unique: boolean;
+  is_primary: boolean;
+}
+
+export interface TableInfo {
+  name: string;
+  columns: ColumnInfo[];
+  indexes: IndexInfo[];
+}
+
+export type TableDriftDiff = RecordDiff & {
+  type: 'table' | 'column' | 'index';
+};
+
+// Spellings of the same type that differ only by dialect or catalog view
+const TYPE_ALIASES: Record<string, string> = {
+  'character varying': 'varchar',
+  'character': 'char',
+  'int': 'integer',
+  'int4': 'integer',
+  'int8': 'bigint',
+  'int2': 'smallint',
+  'bool': 'boolean',
+  'double precision': 'double',
+  'timestamp without time zone': 'timestamp',
+  'timestamp with time zone': 'timestamptz',
+};
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function toBoolean(value: any): boolean {
+  return value === true || value === 1 || value === '1' || value === 'YES' || value === 't';
+}
+
+function normalizeType(type: string | null): string {
+  const normalized = (type || '').toLowerCase().trim();
+  return TYPE_ALIASES[normalized] || normalized;
+}
+
+/**
+ * Strips dialect decoration from column defaults so equal defaults compare equal:
+ * MSSQL wraps them in parentheses, PostgreSQL adds casts, SQLite keeps the quotes.
+ */
+function normalizeDefault(value: any): string | null {
+  if (value === null || value === undefined) return null;
+  let normalized = String(value).trim();
+
+  while (normalized.startsWith('(') && normalized.endsWith(')')) {
+    normalized = normalized.slice(1, -1).trim();
+  }
+
+  normalized = normalized.replace(/::[\w\s"]+(\[\])?$/, '');
+
+  if (/^nextval\(/i.test(normalized)) {
+    return 'autoincrement';
+  }
+
+  if (normalized.startsWith("'") && normalized.endsWith("'")) {
+    normalized = normalized.slice(1, -1).replace(/''/g, "'");
+  }
+
+  return normalized.toUpperCase() === 'NULL' ? null : normalized;
+}
+
+function groupIndexRows(rows: Array<{ table: string; name: string; column: string; is_unique: any; is_primary: any }>): IndexInfo[] {
+  const indexes = new Map<string, IndexInfo>();
+
+  rows.forEach(row => {
+    const key = `${row.table}.${row.name}`;
+    const existing = indexes.get(key);
+    if (existing) {
+      existing.columns = `${existing.columns},${row.column}`;
+    } else {
+      indexes.set(key, {
+        table: row.table,
+        name: row.name,
+        columns: row.column,
+        is_unique: toBoolean(row.is_unique),
+        is_primary: toBoolean(row.is_primary),
+      });
+    }
+  });
+
+  return Array.from(indexes.values());
+}
+
+export class SchemaInspector {
+  private db: DatabaseConnection;
+
+  constructor(db: DatabaseConnection) {
+    this.db = db;
+  }
+
+  private async getKnex(): Promise<Knex> {
+    await this.db.connect();
+    return this.db.getKnexInstance();
+  }
+
+  private get dialect() {
+    return this.db.getConnectionInfo().type;
+  }
+
+  // information_schema identifiers are lower case on PostgreSQL and upper case on MySQL/MSSQL
+  private ident(name: string): string {
+    return this.dialect === 'pg' ? name.toLowerCase() : name.toUpperCase();
+  }
+
+  async getTables(): Promise<string[]> {
+    const knex = await this.getKnex();
+    let rows: Array<{ name: string }>;
+
+    switch (this.dialect) {
+      case 'pg':
+      case 'mysql':
+      case 'mssql': {
+        const id = (name: string) => this.ident(name);
+        rows = await knex(id('information_schema.tables'))
+          .select(`${id('TABLE_NAME')} as name`)
+          .whereRaw(this.schemaFilter(id('TABLE_SCHEMA')))
+          .andWhere(id('TABLE_TYPE'), 'BASE TABLE');
+        break;
+      }
+      case 'sqlite3':
+        rows = await knex('sqlite_master')
+          .select('name')
+          .where('type', 'table')
+          .andWhereNot('name', 'like', 'sqlite_%');
+        break;
+      default:
+        throw new Error(`Unsupported database type: ${this.dialect}`);
+    }
+
+    return rows.map(row => row.name).sort();
+  }
+
+  async getColumns(table: string): Promise<ColumnInfo[]> {
+    const knex = await this.getKnex();
+
+    if (this.dialect === 'sqlite3') {
+      const rows = await knex.raw(`PRAGMA table_info(${knex.raw('??', [table]).toQuery()})`);
+      return rows.map((row: any) => {
+        const match = /^([^(]+)(?:\((\d+)(?:\s*,\s*(\d+))?\))?/.exec(row.type || '');
+        const baseType = normalizeType(match ? match[1] : row.type);
+        const isNumeric = ['decimal', 'numeric'].includes(baseType);
+        return {
+          table,
+          name: row.name,
+          data_type: baseType,
+          max_length: !isNumeric && match ? toNumber(match[2]) : null,
+          numeric_precision: isNumeric && match ? toNumber(match[2]) : null,
+          numeric_scale: isNumeric && match ? toNumber(match[3]) : null,
+          is_nullable: !row.notnull && !row.pk,
+          default_value: normalizeDefault(row.dflt_value),
+          is_primary_key: row.pk > 0,
+        };
+      });
+    }
+
+    const id = (name: string) => this.ident(name);
+    const primaryKeys = await this.getPrimaryKeyColumns(knex, table);
+
+    const rows = await knex(id('information_schema.columns'))
+      .select(
+        `${id('COLUMN_NAME')} as name`,
+        `${id('DATA_TYPE')} as data_type`,
+        `${id('CHARACTER_MAXIMUM_LENGTH')} as max_length`,
+        `${id('NUMERIC_PRECISION')} as numeric_precision`,
+        `${id('NUMERIC_SCALE')} as numeric_scale`,
+        `${id('IS_NULLABLE')} as is_nullable`,
+        `${id('COLUMN_DEFAULT')} as default_value`
+      )
+      .whereRaw(this.schemaFilter(id('TABLE_SCHEMA')))
+      .andWhere(id('TABLE_NAME'), table)
+      .orderBy(id('ORDINAL_POSITION'));
+
+    return rows.map((row: any) => {
+      const dataType = normalizeType(row.data_type);
+      const isNumeric = ['decimal', 'numeric'].includes(dataType);
+      return {
+        table,
+        name: row.name,
+        data_type: dataType,
+        max_length: toNumber(row.max_length),
+        // Integer precision is implied by the type and reported inconsistently across dialects
+        numeric_precision: isNumeric ? toNumber(row.numeric_precision) : null,
+        numeric_scale: isNumeric ? toNumber(row.numeric_scale) : null,
+        is_nullable: toBoolean(row.is_nullable),
+        default_value: normalizeDefault(row.default_value),
+        is_primary_key: primaryKeys.includes(row.name),
+      };
+    });
+  }
+
+  private schemaFilter(column: string): string {
+    switch (this.dialect) {
+      case 'pg':
+        return `${column} = current_schema()`;
+      case 'mysql':
+        return `${column} = DATABASE()`;
+      default:
+        return `${column} = SCHEMA_NAME()`;
+    }
+  }
+
+  private async getPrimaryKeyColumns(knex: Knex, table: string): Promise<string[]> {
+    const id = (name: string) => this.ident(name);
+
+    if (this.dialect === 'mysql') {
+      const rows = await knex('information_schema.columns')
+        .select('COLUMN_NAME as name')
+        .whereRaw(this.schemaFilter('TABLE_SCHEMA'))
+        .andWhere({ TABLE_NAME: table, COLUMN_KEY: 'PRI' });
+      return rows.map((row: any) => row.name);
+    }
+
+    const rows = await knex(`${id('information_schema.table_constraints')} as tc`)
+      .join(`${id('information_schema.key_column_usage')} as kcu`, function () {
+        this.on(`tc.${id('CONSTRAINT_NAME')}`, '=', `kcu.${id('CONSTRAINT_NAME')}`)
+          .andOn(`tc.${id('TABLE_SCHEMA')}`, '=', `kcu.${id('TABLE_SCHEMA')}`)
+          .andOn(`tc.${id('TABLE_NAME')}`, '=', `kcu.${id('TABLE_NAME')}`);
+      })
+      .select(`kcu.${id('COLUMN_NAME')} as name`)
+      .whereRaw(this.schemaFilter(`tc.${id('TABLE_SCHEMA')}`))
+      .andWhere(`tc.${id('TABLE_NAME')}`, table)
+      .andWhere(`tc.${id('CONSTRAINT_TYPE')}`, 'PRIMARY KEY')
+      .orderBy(`kcu.${id('ORDINAL_POSITION')}`);
+    return rows.map((row: any) => row.name);
+  }
+
+  async getIndexes(table: string): Promise<IndexInfo[]> {
+    const knex = await this.getKnex();
+
+    switch (this.dialect) {
+      case 'pg': {
+        const result = await knex.raw(`
+          SELECT t.relname AS "table", i.relname AS name, a.attname AS "column",
+            ix.indisunique AS is_unique, ix.indisprimary AS is_primary
+          FROM pg_class t
+          JOIN pg_index ix ON t.oid = ix.indrelid
+          JOIN pg_class i ON i.oid = ix.indexrelid
+          JOIN pg_namespace n ON n.oid = t.relnamespace
+          JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = ANY(ix.indkey)
+          WHERE n.nspname = current_schema() AND t.relname = ?
+          ORDER BY i.relname, array_position(ix.indkey::smallint[], a.attnum)
+        `, [table]);
+        return groupIndexRows(result.rows);
+      }
+      case 'mysql': {
+        const rows = await knex('information_schema.statistics')
+          .select(
+            'TABLE_NAME as table',
+            'INDEX_NAME as name',
+            'COLUMN_NAME as column',
+            knex.raw('NON_UNIQUE = 0 as is_unique'),
+            knex.raw("INDEX_NAME = 'PRIMARY' as is_primary")
+          )
+          .whereRaw('TABLE_SCHEMA = DATABASE()')
+          .andWhere('TABLE_NAME', table)
+          .orderBy(['INDEX_NAME', 'SEQ_IN_INDEX']);
+        return groupIndexRows(rows);
+      }
+      case 'mssql': {
+        const rows = await knex('sys.indexes as i')
+          .join('sys.index_columns as ic', function () {
+            this.on('i.object_id', '=', 'ic.object_id').andOn('i.index_id', '=', 'ic.index_id');
+          })
+          .join('sys.columns as c', function () {
+            this.on('ic.object_id', '=', 'c.object_id').andOn('ic.column_id', '=', 'c.column_id');
+          })
+          .join('sys.tables as t', 't.object_id', 'i.object_id')
+          .select('t.name as table', 'i.name as name', 'c.name as column', 'i.is_unique', 'i.is_primary_key as is_primary')
+          .whereRaw('t.schema_id = SCHEMA_ID()')
+          .andWhere('t.name', table)
+          .andWhere('ic.is_included_column', 0)
+          .orderBy(['i.name', 'ic.key_ordinal']);
+        return groupIndexRows(rows);
+      }
+      case 'sqlite3': {
+        const quotedTable = knex.raw('??', [table]).toQuery();
+        const indexList = await knex.raw(`PRAGMA index_list(${quotedTable})`);
+        const rows = [];
+        for (const index of indexList) {
+          const columns = await knex.raw(`PRAGMA index_info(${knex.raw('??', [index.name]).toQuery()})`);
+          for (const column of columns.sort((a: any, b: any) => a.seqno - b.seqno)) {
+            rows.push({
+              table,
+              name: index.name,
+              column: column.name,
+              is_unique: index.unique,
+              is_primary: index.origin === 'pk',
+            });
+          }
+        }
+
+        // INTEGER PRIMARY KEY columns are the rowid and have no entry in index_list
+        const pkColumns = (await knex.raw(`PRAGMA table_info(${quotedTable})`))
+          .filter((column: any) => column.pk > 0)
+          .sort((a: any, b: any) => a.pk - b.pk);
+        if (pkColumns.length > 0 && !rows.some(row => row.is_primary)) {
+          pkColumns.forEach((column: any) => {
+            rows.push({ table, name: 'PRIMARY', column: column.name, is_unique: true, is_primary: true });
+          });
+        }
+
+        return groupIndexRows(rows);
+      }
+      default:
+        throw new Error(`Unsupported database type: ${this.dialect}`);
+    }
+  }
+
+  /**
+   * Introspects user tables, skipping Directus system tables which are managed by Directus migrations.
+   */
+  async inspect(): Promise<TableInfo[]> {
+    const tables = (await this.getTables()).filter(table => !table.startsWith('directus_'));
+    const result: TableInfo[] = [];
+
+    for (const table of tables) {
+      result.push({
+        name: table,
+        columns: await this.getColumns(table),
+        indexes: await this.getIndexes(table),
+      });
+    }
+
+    return result;
+  }
+}
+
+export class TableDriftComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async compareTables(): Promise<TableDriftDiff[]> {
+    const [sourceTables, targetTables] = await Promise.all([
+      new SchemaInspector(this.sourceDb).inspect(),
+      new SchemaInspector(this.targetDb).inspect(),
+    ]);
+
+    const tableDiffs = compareRecords(
+      sourceTables.map(t => ({ table: t.name })),
+      targetTables.map(t => ({ table: t.name })),
+      { type: 'table', getKey: row => row.table, getGroup: row => row.table }
+    );
+
+    const columnDiffs = compareRecords(
+      sourceTables.flatMap(t => t.columns),
+      targetTables.flatMap(t => t.columns),
+      {
+        type: 'column',
+        getKey: row => `${row.table}.${row.name}`,
+        getLabel: row => row.name,
+        getGroup: row => row.table,
+      }
+    );
+
+    // Index names are often generated per dialect, so indexes are matched by their columns
+    const indexDiffs = compareRecords(
+      sourceTables.flatMap(t => t.indexes),
+      targetTables.flatMap(t => t.indexes),
+      {
+        type: 'index',
+        getKey: row => `${row.table}(${row.columns})`,
+        getLabel: row => `(${row.columns})`,
+        getGroup: row => row.table,
+        ignoreColumns: ['name'],
+      }
+    );
+
+    const typeOrder = ['table', 'column', 'index'];
+    return ([...tableDiffs, ...columnDiffs, ...indexDiffs] as TableDriftDiff[]).sort((a, b) => {
+      if (a.group !== b.group) return a.group.localeCompare(b.group);
+      if (a.type !== b.type) return typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type);
+      return a.label.localeCompare(b.label);
+    });
+  }
+}
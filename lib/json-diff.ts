@@ -0,0 +1,93 @@
+export type JsonChangeType = 'added' | 'removed' | 'changed';
+
+export interface JsonChange {
+  // e.g. `_and[1].status._eq`; empty for the root value
+  path: string;
+  type: JsonChangeType;
+  // Value on the target today and the source value the sync would write
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Parses JSON text (as stored by MSSQL, MySQL and SQLite) into a value; anything that is not
+ * a string, or not valid JSON, is returned as is.
+ */
+export function parseJsonValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value ?? null;
+
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return value;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Directus treats a missing filter and an empty one the same
+const isEmptyRule = (value: unknown) => value === null || (isObject(value) && Object.keys(value).length === 0);
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) return `${path}[${JSON.stringify(key)}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function collectChanges(target: unknown, source: unknown, path: string, changes: JsonChange[]): void {
+  if (Array.isArray(target) && Array.isArray(source)) {
+    const length = Math.max(target.length, source.length);
+    for (let i = 0; i < length; i++) {
+      const childPath = joinPath(path, i);
+      if (i >= target.length) {
+        changes.push({ path: childPath, type: 'added', to: source[i] });
+      } else if (i >= source.length) {
+        changes.push({ path: childPath, type: 'removed', from: target[i] });
+      } else {
+        collectChanges(target[i], source[i], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  if (isObject(target) && isObject(source)) {
+    const keys = Array.from(new Set([...Object.keys(target), ...Object.keys(source)])).sort();
+    keys.forEach(key => {
+      const childPath = joinPath(path, key);
+      if (!(key in target)) {
+        changes.push({ path: childPath, type: 'added', to: source[key] });
+      } else if (!(key in source)) {
+        changes.push({ path: childPath, type: 'removed', from: target[key] });
+      } else {
+        collectChanges(target[key], source[key], childPath, changes);
+      }
+    });
+    return;
+  }
+
+  if (target !== source) {
+    changes.push({ path, type: 'changed', from: target, to: source });
+  }
+}
+
+/**
+ * Structural diff of two JSON rule values (filter, validation or presets) in sync direction:
+ * `added` paths exist only on the source and will be added to the target, `removed` paths
+ * exist only on the target. Key order and formatting never produce changes.
+ */
+export function diffJson(source: unknown, target: unknown): JsonChange[] {
+  const sourceValue = parseJsonValue(source);
+  const targetValue = parseJsonValue(target);
+  if (isEmptyRule(sourceValue) && isEmptyRule(targetValue)) return [];
+
+  const changes: JsonChange[] = [];
+  collectChanges(targetValue, sourceValue, '', changes);
+  return changes;
+}
+
+export function formatJsonValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
@@ -0,0 +1,127 @@
+import { Permission, PermissionDiff } from './permissions';
+
+/**
+ * How a permission changed relative to a common baseline:
+ * - `unchanged`: source and target agree
+ * - `source-change`: only the source moved away from the baseline; safe to sync
+ * - `target-change`: only the target changed (e.g. a hotfix); syncing would undo it
+ * - `auto-merged`: both changed, but different columns (or compatible field lists)
+ * - `conflict`: both changed the same column differently, or one deleted what the other edited
+ */
+export type MergeStatus = 'unchanged' | 'source-change' | 'target-change' | 'auto-merged' | 'conflict';
+
+export const MERGE_COLUMNS = ['fields', 'permissions', 'validation', 'presets'] as const;
+
+export type MergeColumnName = typeof MERGE_COLUMNS[number];
+
+export interface MergeColumn {
+  column: MergeColumnName;
+  base: string | null;
+  source: string | null;
+  target: string | null;
+  // Value the sync writes; null while `conflict` is unresolved
+  merged: string | null;
+  conflict: boolean;
+}
+
+export interface PermissionMerge {
+  status: MergeStatus;
+  basePermission: Permission | null;
+  // Columns that differ between any of the three versions
+  columns: MergeColumn[];
+}
+
+export function splitFields(fields: string | null): string[] {
+  return fields ? fields.split(',').map(field => field.trim()).filter(field => field.length > 0) : [];
+}
+
+/**
+ * Directus treats a missing rule and an empty object the same (no filter, no presets), so
+ * compare them as equal. Values are expected to be normalized (see `normalizePermission`).
+ */
+export function permissionColumnsEqual(column: MergeColumnName, a: string | null, b: string | null): boolean {
+  if (column === 'fields') return a === b;
+  const empty = (value: string | null) => value === null || value === '{}';
+  return a === b || (empty(a) && empty(b));
+}
+
+function permissionsEqual(a: Permission | null, b: Permission | null): boolean {
+  if (!a || !b) return a === b;
+  return MERGE_COLUMNS.every(column => permissionColumnsEqual(column, a[column], b[column]));
+}
+
+/**
+ * Three-way merge of field lists: starts from the baseline, drops fields either side removed
+ * and adds fields either side added.
+ */
+export function mergeFieldLists(base: string | null, source: string | null, target: string | null): string | null {
+  const baseFields = splitFields(base);
+  const sourceFields = splitFields(source);
+  const targetFields = splitFields(target);
+
+  const merged = new Set(baseFields.filter(field => sourceFields.includes(field) && targetFields.includes(field)));
+  [...sourceFields, ...targetFields]
+    .filter(field => !baseFields.includes(field))
+    .forEach(field => merged.add(field));
+
+  return merged.size > 0 ? Array.from(merged).sort().join(',') : null;
+}
+
+function mergeColumn(column: MergeColumnName, base: string | null, source: string | null, target: string | null): MergeColumn {
+  const equal = (a: string | null, b: string | null) => permissionColumnsEqual(column, a, b);
+  let merged: string | null = null;
+  let conflict = false;
+
+  if (equal(source, target) || equal(target, base)) {
+    merged = source;
+  } else if (equal(source, base)) {
+    merged = target;
+  } else if (column === 'fields') {
+    merged = mergeFieldLists(base, source, target);
+  } else {
+    conflict = true;
+  }
+
+  return { column, base, source, target, merged, conflict };
+}
+
+/**
+ * Classifies one permission against its baseline version and, when both sides changed,
+ * merges them column by column. `mergedPermission` is set for auto-merged permissions only.
+ */
+export function mergePermission(
+  base: Permission | null,
+  source: Permission | null,
+  target: Permission | null
+): { merge: PermissionMerge; mergedPermission: Permission | null } {
+  const columns = source && target
+    ? MERGE_COLUMNS
+      .map(column => mergeColumn(column, base?.[column] ?? null, source[column], target[column]))
+      .filter(({ column, base, source, target }) =>
+        !permissionColumnsEqual(column, source, target) || !permissionColumnsEqual(column, source, base))
+    : [];
+  const result = (status: MergeStatus, mergedPermission: Permission | null = null) => ({
+    merge: { status, basePermission: base, columns },
+    mergedPermission,
+  });
+
+  if (permissionsEqual(source, target)) return result('unchanged');
+  if (permissionsEqual(target, base)) return result('source-change');
+  if (permissionsEqual(source, base)) return result('target-change');
+  // One side deleted what the other changed; there is nothing to merge column by column
+  if (!source || !target || columns.some(column => column.conflict)) return result('conflict');
+
+  const mergedPermission = { ...source };
+  columns.forEach(({ column, merged }) => {
+    mergedPermission[column] = merged;
+  });
+  return result('auto-merged', mergedPermission);
+}
+
+/**
+ * Conflicting columns must be resolved (which sets `mergedPermission`) before the diff can be
+ * synced. Delete/edit conflicts can be synced as is, which applies the source side.
+ */
+export function needsResolution(diff: PermissionDiff): boolean {
+  return diff.merge?.status === 'conflict' && diff.merge.columns.length > 0 && !diff.mergedPermission;
+}
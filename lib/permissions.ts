@@ -1,4 +1,9 @@
 import { DatabaseConnection } from './database';
+import { getIgnoredColumns, IgnoreRule } from './ignore';
+import { MergeColumnName, mergePermission, permissionColumnsEqual, PermissionMerge } from './merge';
+import { PolicyMatch, PolicyMatcher, PolicyOverrides } from './policies';
+import { normalizeId, sortKeys } from './records';
+import { runSyncBatch, SyncBatch, SyncOptions, SyncResult } from './sync-batch';
 
 export interface Permission {
   id: number;
@@ -18,18 +23,136 @@ export interface PermissionDiff {
   action: string;
   policy: string;
   policy_name: string;
+  // Policy IDs on each side; they differ when policies were paired by name or manually
+  sourcePolicy: string | null;
+  targetPolicy: string | null;
   sourcePermission: Permission | null;
   targetPermission: Permission | null;
   status: 'added' | 'removed' | 'modified' | 'identical';
+  // Three-way mode only (see compareWithBaseline)
+  merge?: PermissionMerge;
+  // Written instead of sourcePermission when both sides changed: auto-merged or resolved in the UI
+  mergedPermission?: Permission | null;
+  // Columns excluded by ignore rules; they never count as a difference and are never synced
+  ignoredColumns?: MergeColumnName[];
+}
+
+const JSON_COLUMNS = ['permissions', 'validation', 'presets'] as const;
+
+/**
+ * Brings a JSON rule column (`permissions`, `validation`, `presets`) into one canonical text
+ * form. PostgreSQL returns these as parsed objects and the other dialects as strings with
+ * arbitrary key order and whitespace. `null`, `''`, the string `'null'` and an empty object all
+ * mean no rule to Directus and become `null`, so compares and writes see the same value.
+ * Text that is not valid JSON is returned trimmed but otherwise untouched.
+ */
+export function normalizeJsonColumn(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+
+  let parsed = value;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      return trimmed;
+    }
+  }
+
+  const text = parsed === null ? null : JSON.stringify(sortKeys(parsed));
+  return text === '{}' ? null : text;
+}
+
+/**
+ * Normalizes a permission row as read from any dialect, so that rows from different database
+ * engines compare equal when Directus would treat them the same, and are written back in the
+ * same canonical form.
+ */
+export function normalizePermission(permission: Permission): Permission {
+  const normalized = { ...permission, policy: normalizeId(permission.policy), fields: normalizeFields(permission.fields) };
+  JSON_COLUMNS.forEach(column => {
+    normalized[column] = normalizeJsonColumn(permission[column]);
+  });
+  return normalized;
+}
+
+export function normalizeFields(fieldsString: string | null): string | null {
+  if (!fieldsString) return fieldsString;
+  
+  // Split, trim, filter empty, sort, and rejoin
+  return fieldsString
+    .split(',')
+    .map(field => field.trim())
+    .filter(field => field.length > 0)
+    .sort()
+    .join(',');
+}
+
+type PermissionOrderKey = Pick<Permission, 'policy_name' | 'collection' | 'action'>;
+
+/**
+ * Display order for permissions: by policy name, then collection, then action (read, create,
+ * update, delete, then anything else alphabetically).
+ */
+export function comparePermissionOrder(a: PermissionOrderKey, b: PermissionOrderKey): number {
+  // Sort by policy first
+  if (a.policy_name !== b.policy_name) return a.policy_name.localeCompare(b.policy_name);
+  
+  // Then by collection
+  if (a.collection !== b.collection) return a.collection.localeCompare(b.collection);
+  
+  // Then by action in specific order: read, create, update, delete
+  const actionOrder = ['read', 'create', 'update', 'delete'];
+  const aIndex = actionOrder.indexOf(a.action.toLowerCase());
+  const bIndex = actionOrder.indexOf(b.action.toLowerCase());
+  
+  // If both actions are in the order list, sort by index
+  if (aIndex !== -1 && bIndex !== -1) {
+    return aIndex - bIndex;
+  }
+  
+  // If only one action is in the order list, prioritize it
+  if (aIndex !== -1) return -1;
+  if (bIndex !== -1) return 1;
+  
+  // If neither action is in the order list, sort alphabetically
+  return a.action.localeCompare(b.action);
+}
+
+function keepIgnoredColumns(permission: Permission, target: Permission, ignoredColumns: MergeColumnName[] = []): Permission {
+  const kept = { ...permission };
+  ignoredColumns.forEach(column => {
+    kept[column] = target[column];
+  });
+  return kept;
 }
 
 export class PermissionComparator {
   private sourceDb: DatabaseConnection;
   private targetDb: DatabaseConnection;
+  private policyOverrides: PolicyOverrides;
+  private policyMatches: PolicyMatch[] | null = null;
+  private ignoreRules: IgnoreRule[];
 
-  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+  constructor(
+    sourceDb: DatabaseConnection,
+    targetDb: DatabaseConnection,
+    policyOverrides: PolicyOverrides = {},
+    ignoreRules: IgnoreRule[] = []
+  ) {
     this.sourceDb = sourceDb;
     this.targetDb = targetDb;
+    this.policyOverrides = policyOverrides;
+    this.ignoreRules = ignoreRules;
+  }
+
+  async matchPolicies(): Promise<PolicyMatch[]> {
+    if (!this.policyMatches) {
+      const matcher = new PolicyMatcher(this.sourceDb, this.targetDb);
+      this.policyMatches = await matcher.matchPolicies(this.policyOverrides);
+    }
+    return this.policyMatches;
   }
 
   async getPermissions(db: DatabaseConnection): Promise<Permission[]> {
@@ -49,75 +172,47 @@ export class PermissionComparator {
       ORDER BY p.collection, p.action, pol.name
     `;
     
-    const result = await db.query(query);
-    
-    // Handle different result structures from different database drivers
-    if (result.recordset) {
-      // MSSQL returns recordset
-      return result.recordset;
-    } else if (result.rows) {
-      // PostgreSQL returns rows
-      return result.rows;
-    } else if (Array.isArray(result)) {
-      // MySQL/SQLite return array directly
-      return result;
-    } else {
-      // Handle other cases
-      return result;
-    }
-  }
-
-  private createPermissionKey(permission: Permission): string {
-    return `${permission.collection}:${permission.action}:${permission.policy}`;
+    const rows = await db.queryRows<Permission>(query);
+    return rows.map(normalizePermission);
   }
 
-  private normalizeFields(fieldsString: string | null): string | null {
-    if (!fieldsString) return fieldsString;
-    
-    // Split, trim, filter empty, sort, and rejoin
-    return fieldsString
-      .split(',')
-      .map(field => field.trim())
-      .filter(field => field.length > 0)
-      .sort()
-      .join(',');
+  private createPermissionKey(permission: Permission, policyKey: string): string {
+    return `${permission.collection}:${permission.action}:${policyKey}`;
   }
 
-  private comparePermissionData(source: Permission, target: Permission): boolean {
-    // Normalize fields before comparison
-    const sourceFields = this.normalizeFields(source.fields);
-    const targetFields = this.normalizeFields(target.fields);
-    
+  private comparePermissionData(source: Permission, target: Permission, ignoredColumns: MergeColumnName[] = []): boolean {
+    // Both sides come from getPermissions and are already normalized
     return (
-      source.permissions === target.permissions &&
-      source.validation === target.validation &&
-      source.presets === target.presets &&
-      sourceFields === targetFields
+      JSON_COLUMNS.every(column =>
+        ignoredColumns.includes(column) || permissionColumnsEqual(column, source[column], target[column])) &&
+      (ignoredColumns.includes('fields') || source.fields === target.fields)
     );
   }
 
   async comparePermissions(): Promise<PermissionDiff[]> {
     const sourcePermissions = await this.getPermissions(this.sourceDb);
     const targetPermissions = await this.getPermissions(this.targetDb);
+    const matches = await this.matchPolicies();
 
-    // Get policies that exist in both servers
-    const sourcePolicies = new Set(sourcePermissions.map(p => p.policy));
-    const targetPolicies = new Set(targetPermissions.map(p => p.policy));
-    const commonPolicies = new Set([...sourcePolicies].filter(p => targetPolicies.has(p)));
-
-    // Filter permissions to only include those with policies that exist in both servers
-    const filteredSourcePermissions = sourcePermissions.filter(p => commonPolicies.has(p.policy));
-    const filteredTargetPermissions = targetPermissions.filter(p => commonPolicies.has(p.policy));
+    // Key permissions by the target's policy ID so that policies paired by name line up.
+    // Policies without a counterpart keep their own ID and show up as added/removed.
+    const sourceToTargetPolicy = new Map<string, string>();
+    matches.forEach(match => {
+      if (match.sourceId && match.targetId) {
+        sourceToTargetPolicy.set(match.sourceId, match.targetId);
+      }
+    });
 
     const sourceMap = new Map<string, Permission>();
     const targetMap = new Map<string, Permission>();
 
-    filteredSourcePermissions.forEach(perm => {
-      sourceMap.set(this.createPermissionKey(perm), perm);
+    sourcePermissions.forEach(perm => {
+      const policyKey = sourceToTargetPolicy.get(perm.policy) || perm.policy;
+      sourceMap.set(this.createPermissionKey(perm, policyKey), perm);
     });
 
-    filteredTargetPermissions.forEach(perm => {
-      targetMap.set(this.createPermissionKey(perm), perm);
+    targetPermissions.forEach(perm => {
+      targetMap.set(this.createPermissionKey(perm, perm.policy), perm);
     });
 
     const allKeys = new Set([...Array.from(sourceMap.keys()), ...Array.from(targetMap.keys())]);
@@ -127,6 +222,15 @@ export class PermissionComparator {
       const sourcePermission = sourceMap.get(key) || null;
       const targetPermission = targetMap.get(key) || null;
 
+      // Ignore rules match policy names on either side, so a renamed policy stays ignored
+      const ignored = [sourcePermission, targetPermission]
+        .filter((permission): permission is Permission => permission !== null)
+        .map(permission => getIgnoredColumns(this.ignoreRules, permission));
+      if (ignored.includes(true)) {
+        continue;
+      }
+      const ignoredColumns = Array.from(new Set((ignored as MergeColumnName[][]).flat()));
+
       let status: PermissionDiff['status'];
       
       if (sourcePermission && !targetPermission) {
@@ -134,12 +238,14 @@ export class PermissionComparator {
       } else if (!sourcePermission && targetPermission) {
         status = 'removed';
       } else if (sourcePermission && targetPermission) {
-        status = this.comparePermissionData(sourcePermission, targetPermission) ? 'identical' : 'modified';
+        status = this.comparePermissionData(sourcePermission, targetPermission, ignoredColumns) ? 'identical' : 'modified';
       } else {
         continue;
       }
 
-      const [collection, action, policy] = key.split(':');
+      const { collection, action } = (sourcePermission || targetPermission)!;
+      const sourcePolicy = sourcePermission?.policy ?? null;
+      const targetPolicy = targetPermission?.policy ?? (sourcePolicy && sourceToTargetPolicy.get(sourcePolicy)) ?? null;
       
       // Get policy name from either source or target permission
       const policy_name = sourcePermission?.policy_name || targetPermission?.policy_name || 'Unknown Policy';
@@ -148,37 +254,79 @@ export class PermissionComparator {
         key,
         collection,
         action,
-        policy,
+        policy: (targetPolicy || sourcePolicy)!,
         policy_name,
+        sourcePolicy,
+        targetPolicy,
         sourcePermission,
         targetPermission,
-        status
+        status,
+        ...(ignoredColumns.length > 0 ? { ignoredColumns } : {})
       });
     }
 
-    return diffs.sort((a, b) => {
-      // Sort by policy first
-      if (a.policy_name !== b.policy_name) return a.policy_name.localeCompare(b.policy_name);
-      
-      // Then by collection
-      if (a.collection !== b.collection) return a.collection.localeCompare(b.collection);
-      
-      // Then by action in specific order: read, create, update, delete
-      const actionOrder = ['read', 'create', 'update', 'delete'];
-      const aIndex = actionOrder.indexOf(a.action.toLowerCase());
-      const bIndex = actionOrder.indexOf(b.action.toLowerCase());
-      
-      // If both actions are in the order list, sort by index
-      if (aIndex !== -1 && bIndex !== -1) {
-        return aIndex - bIndex;
+    return diffs.sort(comparePermissionOrder);
+  }
+
+  /**
+   * Three-way compare: like `comparePermissions`, but every diff also says which side changed
+   * relative to `baselineDb` (typically a snapshot of the last synced state), and permissions
+   * changed on both sides are merged column by column where possible.
+   */
+  async compareWithBaseline(baselineDb: DatabaseConnection): Promise<PermissionDiff[]> {
+    const diffs = await this.comparePermissions();
+    const basePermissions = await this.getPermissions(baselineDb);
+
+    // Key baseline permissions the way comparePermissions keys the target's
+    const baseMatches = await new PolicyMatcher(baselineDb, this.targetDb).matchPolicies();
+    const baseToTargetPolicy = new Map<string, string>();
+    baseMatches.forEach(match => {
+      if (match.sourceId && match.targetId) {
+        baseToTargetPolicy.set(match.sourceId, match.targetId);
       }
-      
-      // If only one action is in the order list, prioritize it
-      if (aIndex !== -1) return -1;
-      if (bIndex !== -1) return 1;
-      
-      // If neither action is in the order list, sort alphabetically
-      return a.action.localeCompare(b.action);
+    });
+    const baseMap = new Map<string, Permission>();
+    basePermissions.forEach(perm => {
+      baseMap.set(this.createPermissionKey(perm, baseToTargetPolicy.get(perm.policy) || perm.policy), perm);
+    });
+
+    return diffs.map(diff => {
+      // Ignored columns take the target's value on every side, so they never need merging
+      const keepTarget = (permission: Permission | null) => permission && diff.targetPermission
+        ? keepIgnoredColumns(permission, diff.targetPermission, diff.ignoredColumns)
+        : permission;
+      const { merge, mergedPermission } = mergePermission(
+        keepTarget(baseMap.get(diff.key) || null),
+        keepTarget(diff.sourcePermission),
+        diff.targetPermission
+      );
+      return mergedPermission ? { ...diff, merge, mergedPermission } : { ...diff, merge };
+    });
+  }
+
+  /**
+   * Syncs a batch of diffs and reports a result per diff. With `atomic`, the batch runs in a
+   * single transaction and nothing is applied unless every diff succeeds. Pass `batch` to add
+   * the results to a batch that is already running (and possibly already in a transaction).
+   */
+  async syncPermissions(
+    diffs: PermissionDiff[],
+    options: SyncOptions & { batch?: SyncBatch } = {}
+  ): Promise<SyncResult[]> {
+    const { batch, ...syncOptions } = options;
+
+    if (batch) {
+      for (const diff of diffs) {
+        await batch.run(diff.key, `${diff.collection}:${diff.action} for policy ${diff.policy_name}`, () =>
+          this.syncPermission(diff)
+        );
+      }
+      return batch.results;
+    }
+
+    return runSyncBatch(this.targetDb, syncOptions, async (targetDb, newBatch) => {
+      const comparator = new PermissionComparator(this.sourceDb, targetDb, this.policyOverrides, this.ignoreRules);
+      await comparator.syncPermissions(diffs, { batch: newBatch });
     });
   }
 
@@ -187,35 +335,44 @@ export class PermissionComparator {
     // diff.sourcePermission represents the source database state
     // diff.targetPermission represents the target database state
     
-    if (!diff.sourcePermission) {
+    // In three-way mode, a merge of both sides replaces the source data
+    const sourcePermission = diff.mergedPermission || diff.sourcePermission;
+    
+    if (!sourcePermission) {
       // Permission doesn't exist in source, so delete from target
       await this.deletePermission(diff.targetPermission!);
     } else if (!diff.targetPermission) {
       // Permission doesn't exist in target, so create in target from source
-      await this.createPermission(diff.sourcePermission);
+      if (!diff.targetPolicy) {
+        throw new Error(`Policy "${diff.policy_name}" has no matching policy on the target`);
+      }
+      await this.createPermission(sourcePermission, diff.targetPolicy);
     } else {
-      // Both exist, update target with source data
-      await this.updatePermission(diff.sourcePermission, diff.targetPermission.id);
+      // Both exist, update target with source data, leaving ignored columns as they are
+      await this.updatePermission(
+        keepIgnoredColumns(sourcePermission, diff.targetPermission, diff.ignoredColumns),
+        diff.targetPermission.id
+      );
     }
   }
 
-  private async createPermission(permission: Permission): Promise<void> {
+  private async createPermission(permission: Permission, targetPolicy: string): Promise<void> {
     const query = `
       INSERT INTO directus_permissions (policy, collection, action, permissions, validation, presets, fields)
       VALUES (?, ?, ?, ?, ?, ?, ?)
     `;
     
-    // Normalize fields before storing
-    const normalizedFields = this.normalizeFields(permission.fields);
+    // Diffs may come from API clients, so normalize again rather than trusting the payload
+    const normalized = normalizePermission(permission);
     
     await this.targetDb.query(query, [
-      permission.policy,
-      permission.collection,
-      permission.action,
-      permission.permissions,
-      permission.validation,
-      permission.presets,
-      normalizedFields
+      normalizeId(targetPolicy),
+      normalized.collection,
+      normalized.action,
+      normalized.permissions,
+      normalized.validation,
+      normalized.presets,
+      normalized.fields
     ]);
   }
 
@@ -226,14 +383,13 @@ export class PermissionComparator {
       WHERE id = ?
     `;
     
-    // Normalize fields before storing
-    const normalizedFields = this.normalizeFields(sourcePermission.fields);
+    const normalized = normalizePermission(sourcePermission);
     
     await this.targetDb.query(query, [
-      sourcePermission.permissions,
-      sourcePermission.validation,
-      sourcePermission.presets,
-      normalizedFields,
+      normalized.permissions,
+      normalized.validation,
+      normalized.presets,
+      normalized.fields,
       targetId
     ]);
   }
@@ -0,0 +1,314 @@
+import { DatabaseConnection } from './database';
+import { normalizeId } from './records';
+
+export interface PolicySummary {
+  id: string;
+  name: string | null;
+}
+
+export interface Policy {
+  id: string;
+  name: string | null;
+  icon: string | null;
+  description: string | null;
+  ip_access: string | null;
+  enforce_tfa: boolean;
+  admin_access: boolean;
+  app_access: boolean;
+}
+
+export interface PolicyDiff {
+  key: string;
+  name: string;
+  matchedBy: PolicyMatch['matchedBy'];
+  // Unpaired source policy with same-named target candidates; creating it would add a duplicate
+  ambiguous: boolean;
+  sourcePolicy: Policy | null;
+  targetPolicy: Policy | null;
+  // Columns whose values differ between source and target
+  changes: string[];
+  status: 'added' | 'removed' | 'modified' | 'identical';
+}
+
+export interface PolicyMatch {
+  sourceId: string | null;
+  sourceName: string | null;
+  targetId: string | null;
+  targetName: string | null;
+  matchedBy: 'id' | 'name' | 'manual' | null;
+  ambiguous: boolean;
+  // Target policy IDs sharing the source policy's name, used to resolve ambiguous pairings
+  candidates: string[];
+}
+
+// Source policy ID -> target policy ID, or null to explicitly leave a policy unmatched
+export type PolicyOverrides = Record<string, string | null>;
+
+// Overrides arrive as JSON from the query string, so their shape is checked before use
+export function isPolicyOverrides(value: unknown): value is PolicyOverrides {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(target => target === null || typeof target === 'string');
+}
+
+export class PolicyMatcher {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async getPolicies(db: DatabaseConnection): Promise<PolicySummary[]> {
+    const rows = await db.queryRows<PolicySummary>('SELECT id, name FROM directus_policies ORDER BY name');
+    return rows.map(row => ({ ...row, id: normalizeId(row.id) }));
+  }
+
+  async matchPolicies(overrides: PolicyOverrides = {}): Promise<PolicyMatch[]> {
+    const sourcePolicies = await this.getPolicies(this.sourceDb);
+    const targetPolicies = await this.getPolicies(this.targetDb);
+
+    return pairPolicies(sourcePolicies, targetPolicies, overrides);
+  }
+}
+
+function normalizeName(name: string | null): string {
+  return (name || '').trim();
+}
+
+export function pairPolicies(
+  sourcePolicies: PolicySummary[],
+  targetPolicies: PolicySummary[],
+  overrides: PolicyOverrides = {}
+): PolicyMatch[] {
+  const targetById = new Map(targetPolicies.map(p => [p.id, p]));
+  const claimedTargets = new Set<string>();
+  const matches: PolicyMatch[] = [];
+  const unmatchedSources: PolicySummary[] = [];
+
+  const createMatch = (
+    source: PolicySummary | null,
+    target: PolicySummary | null,
+    matchedBy: PolicyMatch['matchedBy']
+  ): PolicyMatch => ({
+    sourceId: source?.id ?? null,
+    sourceName: source?.name ?? null,
+    targetId: target?.id ?? null,
+    targetName: target?.name ?? null,
+    matchedBy,
+    ambiguous: false,
+    candidates: [],
+  });
+
+  // Manual pairings take precedence over anything detected automatically
+  const pending: PolicySummary[] = [];
+  for (const source of sourcePolicies) {
+    if (!(source.id in overrides)) {
+      pending.push(source);
+      continue;
+    }
+
+    const targetId = overrides[source.id];
+    const target = targetId ? targetById.get(targetId) : undefined;
+    if (target && !claimedTargets.has(target.id)) {
+      claimedTargets.add(target.id);
+      matches.push(createMatch(source, target, 'manual'));
+    } else {
+      matches.push(createMatch(source, null, targetId === null ? 'manual' : null));
+    }
+  }
+
+  // Then pair policies that share the same UUID on both sides
+  for (const source of pending) {
+    const target = targetById.get(source.id);
+    if (target && !claimedTargets.has(target.id)) {
+      claimedTargets.add(target.id);
+      matches.push(createMatch(source, target, 'id'));
+    } else {
+      unmatchedSources.push(source);
+    }
+  }
+
+  // Finally pair the remaining policies by name, but only when the name is unique on both sides
+  const remainingTargets = targetPolicies.filter(p => !claimedTargets.has(p.id));
+  const sourceNameCounts = new Map<string, number>();
+  unmatchedSources.forEach(p => {
+    const name = normalizeName(p.name);
+    sourceNameCounts.set(name, (sourceNameCounts.get(name) || 0) + 1);
+  });
+
+  for (const source of unmatchedSources) {
+    const name = normalizeName(source.name);
+    const candidates = name
+      ? remainingTargets.filter(p => normalizeName(p.name) === name && !claimedTargets.has(p.id))
+      : [];
+
+    if (candidates.length === 1 && sourceNameCounts.get(name) === 1) {
+      claimedTargets.add(candidates[0].id);
+      matches.push(createMatch(source, candidates[0], 'name'));
+    } else {
+      const match = createMatch(source, null, null);
+      match.ambiguous = candidates.length > 0;
+      match.candidates = candidates.map(p => p.id);
+      matches.push(match);
+    }
+  }
+
+  // Policies that only exist on the target
+  for (const target of targetPolicies) {
+    if (!claimedTargets.has(target.id)) {
+      matches.push(createMatch(null, target, null));
+    }
+  }
+
+  return matches.sort((a, b) => {
+    const aName = a.sourceName || a.targetName || '';
+    const bName = b.sourceName || b.targetName || '';
+    return aName.localeCompare(bName);
+  });
+}
+
+const POLICY_COLUMNS: Array<keyof Omit<Policy, 'id'>> = [
+  'name',
+  'icon',
+  'description',
+  'ip_access',
+  'enforce_tfa',
+  'admin_access',
+  'app_access',
+];
+
+const BOOLEAN_COLUMNS = new Set<keyof Policy>(['enforce_tfa', 'admin_access', 'app_access']);
+
+export class PolicyComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+  private policyOverrides: PolicyOverrides;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection, policyOverrides: PolicyOverrides = {}) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+    this.policyOverrides = policyOverrides;
+  }
+
+  async getPolicies(db: DatabaseConnection): Promise<Policy[]> {
+    const query = `
+      SELECT id, name, icon, description, ip_access, enforce_tfa, admin_access, app_access
+      FROM directus_policies
+      ORDER BY name
+    `;
+
+    const rows = await db.queryRows(query);
+
+    // Booleans come back as 0/1 (or '0'/'1') from MSSQL, MySQL and SQLite
+    return rows.map(row => {
+      const policy = { ...row, id: normalizeId(row.id) };
+      BOOLEAN_COLUMNS.forEach(column => {
+        policy[column] = row[column] === true || row[column] === 1 || row[column] === '1' || row[column] === 'true';
+      });
+      return policy as Policy;
+    });
+  }
+
+  private getChangedColumns(source: Policy, target: Policy): string[] {
+    return POLICY_COLUMNS.filter(column => (source[column] ?? null) !== (target[column] ?? null));
+  }
+
+  async comparePolicies(matches?: PolicyMatch[]): Promise<PolicyDiff[]> {
+    const sourcePolicies = await this.getPolicies(this.sourceDb);
+    const targetPolicies = await this.getPolicies(this.targetDb);
+    const policyMatches = matches || pairPolicies(sourcePolicies, targetPolicies, this.policyOverrides);
+
+    const sourceById = new Map(sourcePolicies.map(p => [p.id, p]));
+    const targetById = new Map(targetPolicies.map(p => [p.id, p]));
+    const diffs: PolicyDiff[] = [];
+
+    for (const match of policyMatches) {
+      const sourcePolicy = (match.sourceId && sourceById.get(match.sourceId)) || null;
+      const targetPolicy = (match.targetId && targetById.get(match.targetId)) || null;
+
+      let status: PolicyDiff['status'];
+      let changes: string[] = [];
+
+      if (sourcePolicy && !targetPolicy) {
+        status = 'added';
+      } else if (!sourcePolicy && targetPolicy) {
+        status = 'removed';
+      } else if (sourcePolicy && targetPolicy) {
+        changes = this.getChangedColumns(sourcePolicy, targetPolicy);
+        status = changes.length === 0 ? 'identical' : 'modified';
+      } else {
+        continue;
+      }
+
+      diffs.push({
+        key: (targetPolicy || sourcePolicy)!.id,
+        name: sourcePolicy?.name || targetPolicy?.name || 'Unnamed Policy',
+        matchedBy: match.matchedBy,
+        ambiguous: match.ambiguous && !targetPolicy,
+        sourcePolicy,
+        targetPolicy,
+        changes,
+        status,
+      });
+    }
+
+    return diffs.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Applies a policy diff to the target and returns the target policy ID.
+   * Missing policies are created with the source UUID, so they pair by UUID on the next comparison.
+   */
+  async syncPolicy(diff: PolicyDiff): Promise<string> {
+    if (!diff.sourcePolicy) {
+      // Deleting a policy cascades to its permissions and role attachments, so leave that to Directus
+      throw new Error(`Policy "${diff.name}" only exists on the target; delete it in Directus if it is no longer needed`);
+    }
+
+    if (!diff.targetPolicy) {
+      await this.createPolicy(diff.sourcePolicy);
+      return diff.sourcePolicy.id;
+    }
+
+    await this.updatePolicy(diff.sourcePolicy, diff.targetPolicy.id);
+    return diff.targetPolicy.id;
+  }
+
+  private async createPolicy(policy: Policy): Promise<void> {
+    const query = `
+      INSERT INTO directus_policies (id, name, icon, description, ip_access, enforce_tfa, admin_access, app_access)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.targetDb.query(query, [
+      policy.id,
+      policy.name,
+      policy.icon,
+      policy.description,
+      policy.ip_access,
+      policy.enforce_tfa,
+      policy.admin_access,
+      policy.app_access,
+    ]);
+  }
+
+  private async updatePolicy(sourcePolicy: Policy, targetId: string): Promise<void> {
+    const query = `
+      UPDATE directus_policies
+      SET name = ?, icon = ?, description = ?, ip_access = ?, enforce_tfa = ?, admin_access = ?, app_access = ?
+      WHERE id = ?
+    `;
+
+    await this.targetDb.query(query, [
+      sourcePolicy.name,
+      sourcePolicy.icon,
+      sourcePolicy.description,
+      sourcePolicy.ip_access,
+      sourcePolicy.enforce_tfa,
+      sourcePolicy.admin_access,
+      sourcePolicy.app_access,
+      targetId,
+    ]);
+  }
+}
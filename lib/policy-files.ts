@@ -0,0 +1,189 @@
+import fs from 'fs/promises';
+import path from 'path';
+import YAML from 'yaml';
+import { DatabaseConnection } from './database';
+import { INSTANCE_SNAPSHOT_FORMAT, INSTANCE_SNAPSHOT_VERSION, InstanceSnapshot } from './instance-snapshot';
+import { comparePermissionOrder, normalizeFields, Permission, PermissionComparator } from './permissions';
+import { Policy, PolicyComparator } from './policies';
+import { sortKeys } from './records';
+
+const POLICY_FILE_HEADER = '# Generated by `pnpm cli export-permissions`. Review changes like code; apply with `pnpm cli apply`.\n';
+
+const RULE_COLUMNS = ['permissions', 'validation', 'presets'] as const;
+
+// Layout of one policy file: the policy's settings, then collection -> action -> rules
+export interface PolicyFile {
+  policy: Omit<Policy, 'id'> & { id: string };
+  permissions: Record<string, Record<string, PolicyFileRules>>;
+}
+
+export interface PolicyFileRules {
+  fields?: string[];
+  permissions?: unknown;
+  validation?: unknown;
+  presets?: unknown;
+}
+
+function toFileName(policy: Policy, takenNames: Set<string>): string {
+  const slug = (policy.name || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  let name = slug || policy.id;
+  // Policy names are not unique in Directus
+  if (takenNames.has(name)) {
+    name = `${name}-${policy.id.slice(0, 8)}`;
+  }
+  takenNames.add(name);
+  return `${name}.yaml`;
+}
+
+function toRules(permission: Permission): PolicyFileRules {
+  const rules: PolicyFileRules = {};
+  const fields = normalizeFields(permission.fields);
+  if (fields) {
+    rules.fields = fields.split(',');
+  }
+  RULE_COLUMNS.forEach(column => {
+    const value = permission[column];
+    if (value !== null) {
+      // Stored rules are normalized JSON text; anything else is kept verbatim
+      try {
+        rules[column] = sortKeys(JSON.parse(value));
+      } catch {
+        rules[column] = value;
+      }
+    }
+  });
+  return rules;
+}
+
+/**
+ * Renders one YAML document per policy. Output only depends on the data, never on query order,
+ * so re-exporting an unchanged instance produces no diff.
+ */
+export function buildPolicyFiles(policies: Policy[], permissions: Permission[]): Map<string, string> {
+  const files = new Map<string, string>();
+  const takenNames = new Set<string>();
+  const sortedPolicies = [...policies].sort((a, b) => (a.name || '').localeCompare(b.name || '') || a.id.localeCompare(b.id));
+
+  sortedPolicies.forEach(policy => {
+    const document: PolicyFile = {
+      policy: {
+        id: policy.id,
+        name: policy.name,
+        icon: policy.icon,
+        description: policy.description,
+        ip_access: policy.ip_access,
+        enforce_tfa: policy.enforce_tfa,
+        admin_access: policy.admin_access,
+        app_access: policy.app_access,
+      },
+      permissions: {},
+    };
+
+    permissions
+      .filter(permission => permission.policy === policy.id)
+      .sort(comparePermissionOrder)
+      .forEach(permission => {
+        const collection = (document.permissions[permission.collection] ??= {});
+        collection[permission.action] = toRules(permission);
+      });
+
+    files.set(toFileName(policy, takenNames), POLICY_FILE_HEADER + YAML.stringify(document));
+  });
+
+  return files;
+}
+
+/**
+ * Writes the policy files for an instance into `dir` and deletes policy files of policies that
+ * no longer exist, so the directory always mirrors the instance. Only files starting with the
+ * generated header are deleted; any other YAML in `dir` is left alone.
+ */
+export async function exportPolicyFiles(db: DatabaseConnection, dir: string): Promise<{ written: string[]; removed: string[] }> {
+  const comparator = new PermissionComparator(db, db);
+  const policies = await new PolicyComparator(db, db).getPolicies(db);
+  const files = buildPolicyFiles(policies, await comparator.getPermissions(db));
+
+  await fs.mkdir(dir, { recursive: true });
+  const removed: string[] = [];
+  for (const file of (await fs.readdir(dir)).filter(file => /\.ya?ml$/i.test(file) && !files.has(file))) {
+    const content = await fs.readFile(path.join(dir, file), 'utf8');
+    if (content.startsWith(POLICY_FILE_HEADER)) {
+      await fs.unlink(path.join(dir, file));
+      removed.push(file);
+    }
+  }
+  for (const [file, content] of Array.from(files)) {
+    await fs.writeFile(path.join(dir, file), content);
+  }
+
+  return { written: Array.from(files.keys()), removed };
+}
+
+function parsePolicyFile(file: string, content: string): PolicyFile {
+  const document = YAML.parse(content) as PolicyFile | null;
+  if (!document?.policy?.id) {
+    throw new Error(`${file} has no policy.id`);
+  }
+  return { policy: document.policy, permissions: document.permissions ?? {} };
+}
+
+/**
+ * Reads a directory of policy files into an instance snapshot containing just policies and
+ * permissions, so it can stand in for the source database of a compare or sync. Like
+ * `exportPolicyFiles`, only files starting with the generated header count as policy files.
+ */
+export async function readPolicyDirectory(dir: string): Promise<InstanceSnapshot> {
+  const files = (await fs.readdir(dir)).filter(file => /\.ya?ml$/i.test(file)).sort();
+  const policies: Record<string, unknown>[] = [];
+  const permissions: Record<string, unknown>[] = [];
+
+  for (const file of files) {
+    const content = await fs.readFile(path.join(dir, file), 'utf8');
+    if (!content.startsWith(POLICY_FILE_HEADER)) continue;
+
+    const { policy, permissions: collections } = parsePolicyFile(file, content);
+    policies.push({
+      id: policy.id,
+      name: policy.name ?? null,
+      icon: policy.icon ?? null,
+      description: policy.description ?? null,
+      ip_access: policy.ip_access ?? null,
+      enforce_tfa: policy.enforce_tfa ?? false,
+      admin_access: policy.admin_access ?? false,
+      app_access: policy.app_access ?? false,
+    });
+
+    Object.entries(collections).forEach(([collection, actions]) => {
+      Object.entries(actions ?? {}).forEach(([action, rules]) => {
+        permissions.push({
+          // Files carry no permission IDs; these only need to be unique within the snapshot
+          id: permissions.length + 1,
+          policy: policy.id,
+          collection,
+          action,
+          permissions: rules?.permissions ?? null,
+          validation: rules?.validation ?? null,
+          presets: rules?.presets ?? null,
+          fields: rules?.fields ? rules.fields.join(',') : null,
+        });
+      });
+    });
+  }
+
+  return {
+    format: INSTANCE_SNAPSHOT_FORMAT,
+    version: INSTANCE_SNAPSHOT_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: { server: 'policy files', database: dir, type: 'snapshot' },
+    tables: {
+      directus_policies: {
+        columns: ['id', 'name', 'icon', 'description', 'ip_access', 'enforce_tfa', 'admin_access', 'app_access'],
+        rows: policies,
+      },
+      directus_permissions: {
+        columns: ['id', 'policy', 'collection', 'action', 'permissions', 'validation', 'presets', 'fields'],
+        rows: permissions,
+      },
+    },
+  };
+}
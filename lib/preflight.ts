@@ -0,0 +1,206 @@
+import { ItemDiff } from './content';
+import { DatabaseConnection } from './database';
+import { FolderComparator, FolderDiff, getFolderPaths } from './folders';
+import { SchemaInspector } from './introspection';
+import { PresetDiff } from './presets';
+import { normalizeId, RecordDiff } from './records';
+import { SyncRequest } from './sync';
+
+export interface PreflightProblem {
+  // Key of the diff that cannot be applied
+  key: string;
+  message: string;
+}
+
+/**
+ * Thrown by `syncWithHistory` when the pre-flight check finds changes the target cannot accept.
+ * Nothing has been written at that point.
+ */
+export class PreflightError extends Error {
+  readonly problems: PreflightProblem[];
+
+  constructor(problems: PreflightProblem[]) {
+    super(`${problems.length} ${problems.length === 1 ? 'problem blocks' : 'problems block'} this sync:\n`
+      + problems.map(problem => `- ${problem.message}`).join('\n'));
+    this.name = 'PreflightError';
+    this.problems = problems;
+  }
+}
+
+// Directus system collections are not listed in directus_collections but always exist
+function isSystemCollection(collection: string): boolean {
+  return collection.startsWith('directus_');
+}
+
+function parseFieldList(fields: string | null): string[] {
+  return (fields || '').split(',').map(field => field.trim()).filter(field => field && field !== '*');
+}
+
+// Target tables written by each record type: the record's own table, then that of its children
+const RECORD_TABLES: Record<string, [string, string?]> = {
+  preset: ['directus_presets'],
+  flow: ['directus_flows', 'directus_operations'],
+  dashboard: ['directus_dashboards', 'directus_panels'],
+  setting: ['directus_settings'],
+  translation: ['directus_translations'],
+  folder: ['directus_folders'],
+};
+
+// Same wording as the sync results, e.g. "flow Notifications → Send welcome mail"
+function recordLabel(diff: RecordDiff): string {
+  return `${diff.type} ${diff.group ? `${diff.group} → ` : ''}${diff.label}`;
+}
+
+/**
+ * Checks, before anything is written, that everything the selected changes point at exists on
+ * the target or is created earlier in the same batch (`syncChanges` applies policies, then
+ * roles parents first, then permissions, then records):
+ * - policies of new permissions and of new role attachments
+ * - parents of new roles and roles of presets
+ * - collections of permissions and presets, and the fields permissions grant access to
+ * - collections of content items, which must be user collections registered on the target
+ * - tables and columns that records (presets, flows and their operations, dashboards and their
+ *   panels, settings, translations, folders, items) are written to
+ * - parents of new folders, and a source value for every setting
+ *
+ * Fields count as existing when the target has them in directus_fields or as table columns,
+ * since alias fields (e.g. one-to-many) have no column and plain columns may have no metadata.
+ */
+export async function checkSyncRequest(targetDb: DatabaseConnection, request: SyncRequest): Promise<PreflightProblem[]> {
+  const { diffs, policyDiffs = [], roleDiffs = [], recordDiffs = [] } = request;
+  const problems: PreflightProblem[] = [];
+
+  const [policyRows, collectionRows, fieldRows] = await Promise.all([
+    targetDb.queryRows<{ id: string }>('SELECT id FROM directus_policies'),
+    targetDb.queryRows<{ collection: string }>('SELECT collection FROM directus_collections'),
+    targetDb.queryRows<{ collection: string; field: string }>('SELECT collection, field FROM directus_fields'),
+  ]);
+  const targetPolicies = new Set(policyRows.map(row => normalizeId(row.id)));
+  const targetCollections = new Set(collectionRows.map(row => row.collection));
+  const targetFields = new Set(fieldRows.map(row => `${row.collection}.${row.field}`));
+
+  // Source IDs of policies and roles the batch creates or updates before they are needed
+  const batchPolicies = new Set(policyDiffs.filter(diff => diff.sourcePolicy).map(diff => diff.sourcePolicy!.id));
+  const batchRoles = new Set(roleDiffs.filter(diff => diff.sourceRole).map(diff => diff.sourceRole!.id));
+
+  const policyExists = (targetPolicy: string | null, sourcePolicy: string | null) =>
+    (targetPolicy !== null && targetPolicies.has(normalizeId(targetPolicy)))
+    || (sourcePolicy !== null && batchPolicies.has(sourcePolicy));
+  const collectionExists = (collection: string) => isSystemCollection(collection) || targetCollections.has(collection);
+
+  const inspector = new SchemaInspector(targetDb);
+  const columnsByTable = new Map<string, string[]>();
+  const getColumns = async (table: string) => {
+    if (!columnsByTable.has(table)) {
+      columnsByTable.set(table, (await inspector.getColumns(table)).map(column => column.name));
+    }
+    return columnsByTable.get(table)!;
+  };
+
+  for (const diff of roleDiffs) {
+    if (!diff.sourceRole) continue;
+
+    const parent = diff.sourceRole.parent;
+    if (parent && !diff.targetParent && !batchRoles.has(parent)) {
+      problems.push({ key: `role:${diff.key}`, message: `Role "${diff.name}": parent role "${diff.sourceParentName}" does not exist on the target and is not part of this sync` });
+    }
+    diff.policies.added
+      .filter(attachment => !policyExists(attachment.targetPolicy, attachment.sourcePolicy))
+      .forEach(attachment => problems.push({
+        key: `role:${diff.key}`,
+        message: `Role "${diff.name}": policy "${attachment.name}" does not exist on the target and is not part of this sync`,
+      }));
+  }
+
+  for (const diff of diffs) {
+    const permission = diff.mergedPermission || diff.sourcePermission;
+    if (!permission) continue;
+
+    const label = `${diff.collection}:${diff.action} for policy ${diff.policy_name}`;
+    if (!diff.targetPermission && !policyExists(diff.targetPolicy, diff.sourcePolicy)) {
+      problems.push({ key: diff.key, message: `${label}: policy "${diff.policy_name}" does not exist on the target and is not part of this sync` });
+    }
+    if (!collectionExists(diff.collection)) {
+      problems.push({ key: diff.key, message: `${label}: collection "${diff.collection}" does not exist on the target` });
+      continue;
+    }
+    if (isSystemCollection(diff.collection)) continue;
+
+    const missingFields: string[] = [];
+    for (const field of parseFieldList(permission.fields)) {
+      if (!targetFields.has(`${diff.collection}.${field}`) && !(await getColumns(diff.collection)).includes(field)) {
+        missingFields.push(field);
+      }
+    }
+    if (missingFields.length > 0) {
+      problems.push({ key: diff.key, message: `${label}: fields ${missingFields.join(', ')} do not exist on the target` });
+    }
+  }
+
+  // Paths of the folders on the target and of those the batch creates (see `sortFolderDiffs`)
+  const folderDiffs = recordDiffs.filter(diff => diff.type === 'folder') as FolderDiff[];
+  const folderPaths = new Set(folderDiffs.filter(diff => diff.source).map(diff => diff.path));
+  if (folderDiffs.some(diff => diff.source && diff.parentPath)) {
+    const targetFolders = await new FolderComparator(targetDb, targetDb).getFolders(targetDb);
+    getFolderPaths(targetFolders).forEach(path => folderPaths.add(path));
+  }
+
+  const checkColumns = async (diff: RecordDiff, table: string, rows: Record<string, any>[]) => {
+    const columns = await getColumns(table);
+    if (columns.length === 0) {
+      problems.push({ key: diff.key, message: `${recordLabel(diff)}: table ${table} does not exist on the target` });
+      return;
+    }
+    const missing = Array.from(new Set(rows.flatMap(row => Object.keys(row)))).filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+      problems.push({ key: diff.key, message: `${recordLabel(diff)}: columns ${missing.join(', ')} of ${table} do not exist on the target` });
+    }
+  };
+
+  for (const diff of recordDiffs) {
+    // Removed items are deleted by a key from the request, so the collection is checked for them too
+    if (diff.type === 'item') {
+      const { collection } = diff as ItemDiff;
+      if (isSystemCollection(collection) || !targetCollections.has(collection)) {
+        problems.push({ key: diff.key, message: `${recordLabel(diff)}: "${collection}" is not a user collection on the target` });
+      } else if (diff.source) {
+        await checkColumns(diff, collection, [diff.source]);
+      }
+      continue;
+    }
+
+    if (diff.type === 'setting' && !diff.source) {
+      problems.push({ key: diff.key, message: `${recordLabel(diff)}: not set on the source; settings are never cleared on the target` });
+      continue;
+    }
+    if (!diff.source) continue;
+
+    const [table, childTable] = RECORD_TABLES[diff.type] ?? [];
+    if (table) {
+      await checkColumns(diff, table, [diff.source]);
+    }
+    const childRows = (diff.children ?? []).filter(child => child.source).map(child => child.source!);
+    if (childTable && childRows.length > 0) {
+      await checkColumns(diff, childTable, childRows);
+    }
+
+    if (diff.type === 'folder') {
+      const { parentPath } = diff as FolderDiff;
+      if (parentPath && !folderPaths.has(parentPath)) {
+        problems.push({ key: diff.key, message: `${recordLabel(diff)}: parent folder ${parentPath} does not exist on the target and is not part of this sync` });
+      }
+    }
+    if (diff.type !== 'preset') continue;
+
+    const preset = diff as PresetDiff;
+    if (!collectionExists(preset.source!.collection)) {
+      problems.push({ key: diff.key, message: `${diff.label}: collection "${preset.source!.collection}" does not exist on the target` });
+    }
+    const role = preset.source!.role;
+    if (role && !preset.targetRole && !batchRoles.has(role)) {
+      problems.push({ key: diff.key, message: `${diff.label}: its role does not exist on the target and is not part of this sync` });
+    }
+  }
+
+  return problems;
+}
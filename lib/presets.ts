@@ -0,0 +1,125 @@
+import { DatabaseConnection } from './database';
+import { pairPolicies } from './policies';
+import { compareRecords, insertRecord, normalizeId, omitColumns, RecordDiff, updateRecord } from './records';
+import { Role, RoleComparator } from './roles';
+
+/**
+ * A row of directus_presets: a collection's default layout (for everyone, a role or a user)
+ * or a named bookmark. Only the columns used for matching are typed; the rest are copied as is.
+ */
+export interface Preset extends Record<string, any> {
+  id: number;
+  bookmark: string | null;
+  user: string | null;
+  role: string | null;
+  collection: string;
+}
+
+export type PresetDiff = RecordDiff<Preset> & {
+  type: 'preset';
+  // Role the source preset belongs to on the target, when that role exists there
+  targetRole: string | null;
+};
+
+// Matched through the key, or differ per instance anyway
+const PRESET_KEY_COLUMNS = ['id', 'user', 'role'];
+
+function getScopeLabel(preset: Preset, roles: Map<string, Role>): string {
+  if (preset.role) return `role ${roles.get(preset.role)?.name || preset.role}`;
+  if (preset.user) return `user ${preset.user}`;
+  return 'everyone';
+}
+
+export class PresetComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async getPresets(db: DatabaseConnection): Promise<Preset[]> {
+    const rows = await db.queryRows<Preset>('SELECT * FROM directus_presets ORDER BY collection, bookmark');
+    return rows.map(row => ({ ...row, user: normalizeId(row.user), role: normalizeId(row.role) }));
+  }
+
+  /**
+   * Pairs presets by collection, scope and bookmark name. Role presets are keyed by the
+   * target's role ID (roles pair by UUID, then by name, like in the roles comparison); user
+   * presets only pair when the user IDs match, e.g. between copies of the same instance.
+   */
+  async comparePresets(): Promise<PresetDiff[]> {
+    const roleComparator = new RoleComparator(this.sourceDb, this.targetDb);
+    const [sourceRoles, targetRoles] = await Promise.all([
+      roleComparator.getRoles(this.sourceDb),
+      roleComparator.getRoles(this.targetDb),
+    ]);
+    const [sourcePresets, targetPresets] = await Promise.all([
+      this.getPresets(this.sourceDb),
+      this.getPresets(this.targetDb),
+    ]);
+
+    const sourceToTargetRole = new Map<string, string>();
+    pairPolicies(sourceRoles, targetRoles).forEach(match => {
+      if (match.sourceId && match.targetId) {
+        sourceToTargetRole.set(match.sourceId, match.targetId);
+      }
+    });
+    const roles = new Map([...sourceRoles, ...targetRoles].map(role => [role.id, role]));
+
+    const getKey = (preset: Preset, role: string | null) => {
+      const scope = role ? `role:${role}` : preset.user ? `user:${preset.user}` : 'all';
+      return `${preset.collection}:${scope}:${preset.bookmark ?? ''}`;
+    };
+    const getLabel = (preset: Preset) =>
+      `${preset.bookmark ? `Bookmark "${preset.bookmark}"` : 'Default layout'} (${getScopeLabel(preset, roles)})`;
+
+    const sourceKeys = new Map(sourcePresets.map(preset => [
+      preset,
+      getKey(preset, preset.role && (sourceToTargetRole.get(preset.role) ?? preset.role)),
+    ]));
+
+    const diffs = compareRecords(sourcePresets, targetPresets, {
+      type: 'preset',
+      getKey: preset => sourceKeys.get(preset) ?? getKey(preset, preset.role),
+      getLabel,
+      getGroup: preset => preset.collection,
+      ignoreColumns: PRESET_KEY_COLUMNS,
+    });
+
+    return diffs.map(diff => ({
+      ...diff,
+      type: 'preset' as const,
+      targetRole: diff.source?.role ? sourceToTargetRole.get(diff.source.role) ?? null : null,
+    }));
+  }
+
+  /**
+   * Applies a preset diff to the target. `createdRoles` maps source role IDs created earlier in
+   * the same batch to their target IDs, so presets of new roles can be synced along with them.
+   */
+  async syncPreset(diff: PresetDiff, createdRoles: Map<string, string> = new Map()): Promise<void> {
+    if (!diff.source) {
+      await this.targetDb.query('DELETE FROM directus_presets WHERE id = ?', [diff.target!.id]);
+      return;
+    }
+
+    let role: string | null = null;
+    if (diff.source.role) {
+      role = diff.targetRole ?? createdRoles.get(diff.source.role) ?? null;
+      if (!role) {
+        throw new Error(`The role of ${diff.label} does not exist on the target`);
+      }
+    }
+
+    const values = omitColumns(diff.source, PRESET_KEY_COLUMNS);
+
+    if (!diff.target) {
+      await insertRecord(this.targetDb, 'directus_presets', { ...values, role, user: diff.source.user });
+      return;
+    }
+
+    await updateRecord(this.targetDb, 'directus_presets', values, { id: diff.target.id });
+  }
+}
@@ -0,0 +1,201 @@
+import fs from 'fs';
+import path from 'path';
+import { ConnectionInfo, createDatabaseConfig, DATABASE_TYPES, DatabaseConfig, DatabaseConnection } from './database';
+
+export interface ConnectionProfile extends DatabaseConfig {
+  name: string;
+  label: string;
+  // directus_settings columns that are specific to this environment, such as project_url
+  excludeSettings?: string[];
+}
+
+// What the UI and API may see of a profile: no credentials
+export interface ProfileSummary extends ConnectionInfo {
+  name: string;
+  label: string;
+}
+
+// Profiles from the classic SOURCE_DB_* / TARGET_DB_* environment variables
+const ENV_PROFILES = [
+  { name: 'source', label: 'Source (.env)', prefix: 'SOURCE' },
+  { name: 'target', label: 'Target (.env)', prefix: 'TARGET' },
+];
+
+// Connections are kept open across requests; the key includes the config so that editing the
+// profiles file takes effect without a restart
+const connections = new Map<string, DatabaseConnection>();
+
+function getProfilesFile(): string {
+  return path.resolve(process.env.PROFILES_FILE || 'profiles.json');
+}
+
+/**
+ * Replaces `${VAR}` in profile values with environment variables, so that passwords can stay
+ * in .env rather than in the profiles file.
+ */
+function interpolateEnv(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return value.replace(/\$\{(\w+)\}/g, (_, name) => process.env[name] ?? '');
+}
+
+function parseProfile(name: string, raw: Record<string, unknown>): ConnectionProfile {
+  const values = Object.fromEntries(Object.entries(raw).map(([key, value]) => [key, interpolateEnv(value)]));
+  const label = typeof values.label === 'string' && values.label ? values.label : name;
+  const excludeSettings = values.excludeSettings;
+
+  if (excludeSettings !== undefined &&
+      (!Array.isArray(excludeSettings) || !excludeSettings.every(column => typeof column === 'string'))) {
+    throw new Error(`Profile "${name}" has an invalid excludeSettings; expected a list of column names`);
+  }
+
+  if (values.type === 'snapshot') {
+    if (typeof values.file !== 'string' || !values.file) {
+      throw new Error(`Profile "${name}" is missing file`);
+    }
+    return { name, label, excludeSettings, ...getSnapshotConfig(values.file) };
+  }
+
+  const type = values.type as DatabaseConfig['type'];
+
+  if (!DATABASE_TYPES.includes(type)) {
+    throw new Error(`Profile "${name}" has an unsupported type: ${values.type}`);
+  }
+  if (type === 'sqlite3' ? !values.filename : !values.host || !values.database || !values.user) {
+    throw new Error(`Profile "${name}" is missing ${type === 'sqlite3' ? 'filename' : 'host, database or user'}`);
+  }
+
+  return {
+    name,
+    label,
+    type,
+    host: values.host as string | undefined,
+    port: values.port !== undefined && values.port !== '' ? Number(values.port) : undefined,
+    database: values.database as string | undefined,
+    user: values.user as string | undefined,
+    password: values.password as string | undefined,
+    ssl: values.ssl === true || values.ssl === 'true',
+    filename: values.filename as string | undefined,
+    excludeSettings,
+  };
+}
+
+function getSnapshotConfig(file: string): DatabaseConfig {
+  return { type: 'sqlite3', filename: ':memory:', snapshotFile: path.resolve(file) };
+}
+
+/**
+ * Returns every configured connection profile: the entries of the profiles file (PROFILES_FILE,
+ * default ./profiles.json) followed by the `source`/`target` profiles from environment
+ * variables, unless the file already defines profiles with those names.
+ */
+export function loadProfiles(): ConnectionProfile[] {
+  const profiles: ConnectionProfile[] = [];
+  const filePath = getProfilesFile();
+
+  if (fs.existsSync(filePath)) {
+    let raw: Record<string, Record<string, unknown>>;
+    try {
+      raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read profiles file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    Object.entries(raw).forEach(([name, config]) => profiles.push(parseProfile(name, config)));
+  }
+
+  ENV_PROFILES.forEach(({ name, label, prefix }) => {
+    if (profiles.some(profile => profile.name === name)) return;
+    // Skip sides that are not configured at all rather than logging errors for them
+    if (!process.env[`${prefix}_DB_HOST`] && !process.env[`${prefix}_DB_FILENAME`]) return;
+    const config = createDatabaseConfig(prefix);
+    if (config) {
+      profiles.push({ ...config, name, label });
+    }
+  });
+
+  return profiles;
+}
+
+export function summarizeProfile(profile: ConnectionProfile): ProfileSummary {
+  const info = new DatabaseConnection({ ...profile, profile: profile.name }).getConnectionInfo();
+  return { ...info, name: profile.name, label: profile.label };
+}
+
+/**
+ * The pair preselected in the UI and used by the CLI when no profiles are given:
+ * DEFAULT_SOURCE_PROFILE / DEFAULT_TARGET_PROFILE, else `source` and `target`, else the first two.
+ */
+export function getDefaultProfiles(profiles = loadProfiles()): { source: string | null; target: string | null } {
+  const names = profiles.map(profile => profile.name);
+  const pick = (preferred: string | undefined, fallback: string, index: number) => {
+    if (preferred && names.includes(preferred)) return preferred;
+    if (names.includes(fallback)) return fallback;
+    return names[index] ?? null;
+  };
+
+  return {
+    source: pick(process.env.DEFAULT_SOURCE_PROFILE, 'source', 0),
+    target: pick(process.env.DEFAULT_TARGET_PROFILE, 'target', 1),
+  };
+}
+
+/**
+ * Returns a (shared) connection for the named profile, or null when no such profile exists.
+ */
+export function getDatabase(name: string | null | undefined): DatabaseConnection | null {
+  if (!name) return null;
+
+  const profile = loadProfiles().find(p => p.name === name);
+  if (!profile) return null;
+
+  const { label, name: profileName, excludeSettings, ...config } = profile;
+  return getConnection({ ...config, profile: profileName });
+}
+
+/**
+ * Settings columns excluded on any of the given profiles. A setting that is specific to either
+ * environment is left out of the comparison altogether.
+ */
+export function getExcludedSettings(...names: Array<string | null | undefined>): string[] {
+  const profiles = loadProfiles().filter(profile => names.includes(profile.name));
+  return Array.from(new Set(profiles.flatMap(profile => profile.excludeSettings ?? [])));
+}
+
+/**
+ * Returns a (shared) read-only connection to an instance snapshot file that is not configured
+ * as a profile. Used by the CLI, which accepts snapshot paths in place of profile names.
+ */
+export function getSnapshotDatabase(file: string): DatabaseConnection {
+  return getConnection(getSnapshotConfig(file));
+}
+
+function getConnection(config: DatabaseConfig): DatabaseConnection {
+  const cacheKey = JSON.stringify(config);
+  let connection = connections.get(cacheKey);
+  if (!connection) {
+    connection = new DatabaseConnection(config);
+    connections.set(cacheKey, connection);
+  }
+  return connection;
+}
+
+/**
+ * Resolves the source and target connections for a request, falling back to the default
+ * profiles for whichever side is not given.
+ */
+export function getProfileConnections(source?: string | null, target?: string | null) {
+  const defaults = getDefaultProfiles();
+  const sourceProfile = source || defaults.source;
+  const targetProfile = target || defaults.target;
+
+  return {
+    sourceProfile,
+    targetProfile,
+    sourceDb: getDatabase(sourceProfile),
+    targetDb: getDatabase(targetProfile),
+  };
+}
+
+export async function disconnectAll(): Promise<void> {
+  await Promise.all(Array.from(connections.values()).map(connection => connection.disconnect()));
+  connections.clear();
+}
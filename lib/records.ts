@@ -0,0 +1,200 @@
+import { DatabaseConnection } from './database';
+
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'identical';
+
+export interface DiffSummary {
+  total: number;
+  added: number;
+  removed: number;
+  modified: number;
+  identical: number;
+}
+
+/**
+ * Row-level diff of a Directus system table, keyed by something that is stable across
+ * instances (e.g. collection + field name) rather than by auto-increment IDs.
+ */
+export interface RecordDiff<T = Record<string, any>> {
+  key: string;
+  type: string;
+  label: string;
+  // Used to group and filter rows in the UI, usually the collection name
+  group: string;
+  source: T | null;
+  target: T | null;
+  // Columns whose values differ between source and target
+  changes: string[];
+  status: DiffStatus;
+  // Dependent rows that are synced together with this one, e.g. a flow's operations
+  children?: RecordDiff[];
+}
+
+export interface CompareRecordsOptions<T> {
+  type: string;
+  getKey: (row: T) => string;
+  getLabel?: (row: T) => string;
+  getGroup?: (row: T) => string;
+  // Columns left out of the comparison, such as auto-increment IDs that differ per instance
+  ignoreColumns?: string[];
+}
+
+export function summarizeDiffs(diffs: Array<{ status: DiffStatus }>): DiffSummary {
+  return {
+    total: diffs.length,
+    added: diffs.filter(d => d.status === 'added').length,
+    removed: diffs.filter(d => d.status === 'removed').length,
+    modified: diffs.filter(d => d.status === 'modified').length,
+    identical: diffs.filter(d => d.status === 'identical').length,
+  };
+}
+
+export function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.keys(value).sort().reduce((sorted, key) => {
+      sorted[key] = sortKeys(value[key]);
+      return sorted;
+    }, {} as Record<string, any>);
+  }
+  return value;
+}
+
+/**
+ * Brings a column value into a comparable form. JSON columns come back as strings from
+ * MSSQL, MySQL and SQLite but as parsed objects from PostgreSQL, and booleans as 0/1
+ * from everything except PostgreSQL.
+ */
+export function canonicalValue(value: any): any {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(sortKeys(value));
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        return JSON.stringify(sortKeys(JSON.parse(trimmed)));
+      } catch {
+        return value;
+      }
+    }
+  }
+  return value;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * MSSQL returns uniqueidentifier columns in upper case while every other dialect uses lower
+ * case, so UUIDs are lower-cased before they are compared or used as keys.
+ */
+export function normalizeId<T>(value: T): T {
+  return typeof value === 'string' && UUID_PATTERN.test(value) ? value.toLowerCase() as T : value;
+}
+
+export function valuesEqual(a: any, b: any): boolean {
+  return canonicalValue(a) === canonicalValue(b);
+}
+
+export function getChangedColumns<T extends Record<string, any>>(
+  source: T,
+  target: T,
+  ignoreColumns: string[] = []
+): string[] {
+  const columns = new Set([...Object.keys(source), ...Object.keys(target)]);
+  return Array.from(columns)
+    .filter(column => !ignoreColumns.includes(column))
+    .filter(column => !valuesEqual(source[column], target[column]));
+}
+
+export function compareRecords<T extends Record<string, any>>(
+  sourceRows: T[],
+  targetRows: T[],
+  options: CompareRecordsOptions<T>
+): RecordDiff<T>[] {
+  const { type, getKey, getLabel = getKey, getGroup = () => '', ignoreColumns = [] } = options;
+  const sourceMap = new Map(sourceRows.map(row => [getKey(row), row]));
+  const targetMap = new Map(targetRows.map(row => [getKey(row), row]));
+  const allKeys = new Set([...Array.from(sourceMap.keys()), ...Array.from(targetMap.keys())]);
+  const diffs: RecordDiff<T>[] = [];
+
+  for (const key of Array.from(allKeys)) {
+    const source = sourceMap.get(key) || null;
+    const target = targetMap.get(key) || null;
+    const row = (source || target)!;
+
+    let status: DiffStatus;
+    let changes: string[] = [];
+
+    if (source && !target) {
+      status = 'added';
+    } else if (!source && target) {
+      status = 'removed';
+    } else {
+      changes = getChangedColumns(source!, target!, ignoreColumns);
+      status = changes.length === 0 ? 'identical' : 'modified';
+    }
+
+    diffs.push({
+      key: `${type}:${key}`,
+      type,
+      label: getLabel(row),
+      group: getGroup(row),
+      source,
+      target,
+      changes,
+      status,
+    });
+  }
+
+  return diffs.sort((a, b) => {
+    if (a.group !== b.group) return a.group.localeCompare(b.group);
+    return a.label.localeCompare(b.label);
+  });
+}
+
+// PostgreSQL returns json columns as objects; the other dialects expect text
+function toColumnValue(value: unknown): unknown {
+  return value && typeof value === 'object' && !(value instanceof Date)
+    ? JSON.stringify(sortKeys(value))
+    : value;
+}
+
+/**
+ * Inserts a row copied from another instance. Column names are bound as identifiers, since
+ * Directus uses names such as `user` that are reserved words in some dialects.
+ */
+export async function insertRecord(db: DatabaseConnection, table: string, row: Record<string, unknown>): Promise<void> {
+  const columns = Object.keys(row);
+  await db.query(
+    `INSERT INTO ?? (${columns.map(() => '??').join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    [table, ...columns, ...columns.map(column => toColumnValue(row[column]))]
+  );
+}
+
+export async function updateRecord(
+  db: DatabaseConnection,
+  table: string,
+  values: Record<string, unknown>,
+  where: Record<string, unknown>
+): Promise<void> {
+  const columns = Object.keys(values);
+  const whereColumns = Object.keys(where);
+  await db.query(
+    `UPDATE ?? SET ${columns.map(() => '?? = ?').join(', ')} WHERE ${whereColumns.map(() => '?? = ?').join(' AND ')}`,
+    [
+      table,
+      ...columns.flatMap(column => [column, toColumnValue(values[column])]),
+      ...whereColumns.flatMap(column => [column, where[column]]),
+    ]
+  );
+}
+
+/**
+ * Copy of a row without the given columns, e.g. IDs and audit columns that are instance-specific.
+ */
+export function omitColumns<T extends Record<string, any>>(row: T, columns: string[]): Record<string, any> {
+  return Object.fromEntries(Object.entries(row).filter(([column]) => !columns.includes(column)));
+}
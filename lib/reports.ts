@@ -0,0 +1,132 @@
+import { ConnectionInfo } from './database';
+import { PermissionDiff } from './permissions';
+import { DiffStatus, DiffSummary, summarizeDiffs } from './records';
+
+export interface DriftReportItem {
+  key: string;
+  status: DiffStatus;
+  policy: string;
+  policy_name: string;
+  collection: string;
+  action: string;
+  failed: boolean;
+}
+
+export interface DriftReport {
+  generatedAt: string;
+  source: ConnectionInfo;
+  target: ConnectionInfo;
+  // Same shape as the `summary` returned by /api/compare
+  summary: DiffSummary;
+  failOn: DiffStatus[];
+  passed: boolean;
+  items: DriftReportItem[];
+}
+
+export const DEFAULT_FAIL_ON: DiffStatus[] = ['added', 'removed', 'modified'];
+
+export function buildDriftReport(
+  diffs: PermissionDiff[],
+  options: { source: ConnectionInfo; target: ConnectionInfo; failOn?: DiffStatus[] }
+): DriftReport {
+  const failOn = options.failOn ?? DEFAULT_FAIL_ON;
+  const items = diffs.map(diff => ({
+    key: diff.key,
+    status: diff.status,
+    policy: diff.policy,
+    policy_name: diff.policy_name,
+    collection: diff.collection,
+    action: diff.action,
+    failed: failOn.includes(diff.status),
+  }));
+
+  return {
+    generatedAt: new Date().toISOString(),
+    source: options.source,
+    target: options.target,
+    summary: summarizeDiffs(diffs),
+    failOn,
+    passed: !items.some(item => item.failed),
+    items,
+  };
+}
+
+export function formatJsonReport(report: DriftReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+const STATUS_DESCRIPTIONS: Record<DiffStatus, string> = {
+  added: 'exists on the source but not on the target',
+  removed: 'exists on the target but not on the source',
+  modified: 'differs between source and target',
+  identical: 'is identical on both sides',
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * One test case per permission, grouped by policy, so CI dashboards show exactly which
+ * permissions drifted.
+ */
+export function formatJUnitReport(report: DriftReport): string {
+  const failures = report.items.filter(item => item.failed).length;
+  const cases = report.items.map(item => {
+    const open = `    <testcase classname="${escapeXml(`permissions.${item.policy_name}`)}" name="${escapeXml(`${item.collection}:${item.action}`)}"`;
+    if (!item.failed) {
+      return `${open} />`;
+    }
+    const message = `${item.collection}:${item.action} for policy ${item.policy_name} ${STATUS_DESCRIPTIONS[item.status]}`;
+    return `${open}>\n      <failure message="${escapeXml(message)}" type="${item.status}">${escapeXml(item.key)}</failure>\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="directus-compare" tests="${report.items.length}" failures="${failures}">`,
+    `  <testsuite name="directus-permissions" tests="${report.items.length}" failures="${failures}" errors="0" timestamp="${report.generatedAt}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+function escapeMarkdown(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+export function formatMarkdownReport(report: DriftReport): string {
+  const statuses: DiffStatus[] = ['added', 'removed', 'modified', 'identical'];
+  const failing = report.items.filter(item => item.failed);
+
+  const lines = [
+    `## ${report.passed ? '✅ No permission drift' : '❌ Permission drift detected'}`,
+    '',
+    `Source: \`${report.source.server} / ${report.source.database}\`  `,
+    `Target: \`${report.target.server} / ${report.target.database}\``,
+    '',
+    '| Status | Count |',
+    '|--------|-------|',
+    ...statuses.map(status => `| ${status}${report.failOn.includes(status) ? ' ⚠️' : ''} | ${report.summary[status]} |`),
+    `| **total** | **${report.summary.total}** |`,
+  ];
+
+  if (failing.length > 0) {
+    lines.push(
+      '',
+      '| Status | Policy | Collection | Action |',
+      '|--------|--------|------------|--------|',
+      ...failing.map(item =>
+        `| ${item.status} | ${escapeMarkdown(item.policy_name)} | ${escapeMarkdown(item.collection)} | ${item.action} |`
+      )
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,288 @@
+import { randomUUID } from 'crypto';
+import { DatabaseConnection } from './database';
+import { PolicyMatch, PolicyMatcher, PolicyOverrides, pairPolicies } from './policies';
+import { normalizeId } from './records';
+
+export interface Role {
+  id: string;
+  name: string | null;
+  icon: string | null;
+  description: string | null;
+  parent: string | null;
+}
+
+export interface RoleAccess {
+  id: string;
+  role: string;
+  policy: string;
+  policy_name: string | null;
+  sort: number | null;
+}
+
+export interface AttachedPolicy {
+  name: string;
+  sourcePolicy: string | null;
+  targetPolicy: string | null;
+  // directus_access row on the target, set for attachments that exist there
+  targetAccessId: string | null;
+}
+
+export interface RoleDiff {
+  key: string;
+  name: string;
+  sourceRole: Role | null;
+  targetRole: Role | null;
+  // Parents are compared by name since role UUIDs usually differ between instances
+  sourceParentName: string | null;
+  targetParentName: string | null;
+  // Target ID of the source role's parent, when that parent exists on the target
+  targetParent: string | null;
+  changes: string[];
+  policies: {
+    added: AttachedPolicy[];
+    removed: AttachedPolicy[];
+    unchanged: AttachedPolicy[];
+  };
+  status: 'added' | 'removed' | 'modified' | 'identical';
+}
+
+const ROLE_COLUMNS: Array<'name' | 'icon' | 'description'> = ['name', 'icon', 'description'];
+
+export class RoleComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+  private policyOverrides: PolicyOverrides;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection, policyOverrides: PolicyOverrides = {}) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+    this.policyOverrides = policyOverrides;
+  }
+
+  async getRoles(db: DatabaseConnection): Promise<Role[]> {
+    const rows = await db.queryRows<Role>('SELECT id, name, icon, description, parent FROM directus_roles ORDER BY name');
+    return rows.map(row => ({ ...row, id: normalizeId(row.id), parent: normalizeId(row.parent) }));
+  }
+
+  async getRoleAccess(db: DatabaseConnection): Promise<RoleAccess[]> {
+    const query = `
+      SELECT a.id, a.role, a.policy, pol.name as policy_name, a.sort
+      FROM directus_access a
+      LEFT JOIN directus_policies pol ON a.policy = pol.id
+      WHERE a.role IS NOT NULL
+      ORDER BY a.role, a.sort
+    `;
+
+    const rows = await db.queryRows<RoleAccess>(query);
+    return rows.map(row => ({ ...row, id: normalizeId(row.id), role: normalizeId(row.role), policy: normalizeId(row.policy) }));
+  }
+
+  async compareRoles(policyMatches?: PolicyMatch[]): Promise<RoleDiff[]> {
+    const sourceRoles = await this.getRoles(this.sourceDb);
+    const targetRoles = await this.getRoles(this.targetDb);
+    const sourceAccess = await this.getRoleAccess(this.sourceDb);
+    const targetAccess = await this.getRoleAccess(this.targetDb);
+    const matches = policyMatches ||
+      await new PolicyMatcher(this.sourceDb, this.targetDb).matchPolicies(this.policyOverrides);
+
+    const sourceToTargetPolicy = new Map<string, string>();
+    matches.forEach(match => {
+      if (match.sourceId && match.targetId) {
+        sourceToTargetPolicy.set(match.sourceId, match.targetId);
+      }
+    });
+
+    // Roles pair the same way policies do: UUID first, then a unique name
+    const roleMatches = pairPolicies(sourceRoles, targetRoles);
+    const sourceToTargetRole = new Map<string, string>();
+    roleMatches.forEach(match => {
+      if (match.sourceId && match.targetId) {
+        sourceToTargetRole.set(match.sourceId, match.targetId);
+      }
+    });
+
+    const sourceById = new Map(sourceRoles.map(r => [r.id, r]));
+    const targetById = new Map(targetRoles.map(r => [r.id, r]));
+    const diffs: RoleDiff[] = [];
+
+    for (const match of roleMatches) {
+      const sourceRole = (match.sourceId && sourceById.get(match.sourceId)) || null;
+      const targetRole = (match.targetId && targetById.get(match.targetId)) || null;
+      if (!sourceRole && !targetRole) continue;
+
+      const sourceParentName = sourceRole?.parent ? sourceById.get(sourceRole.parent)?.name ?? null : null;
+      const targetParentName = targetRole?.parent ? targetById.get(targetRole.parent)?.name ?? null : null;
+      const targetParent = sourceRole?.parent ? sourceToTargetRole.get(sourceRole.parent) ?? null : null;
+
+      const changes: string[] = [];
+      if (sourceRole && targetRole) {
+        ROLE_COLUMNS.forEach(column => {
+          if ((sourceRole[column] ?? null) !== (targetRole[column] ?? null)) {
+            changes.push(column);
+          }
+        });
+        if (sourceParentName !== targetParentName) {
+          changes.push('parent');
+        }
+      }
+
+      const policies = this.compareAttachments(
+        sourceRole ? sourceAccess.filter(a => a.role === sourceRole.id) : [],
+        targetRole ? targetAccess.filter(a => a.role === targetRole.id) : [],
+        sourceToTargetPolicy
+      );
+
+      let status: RoleDiff['status'];
+      if (sourceRole && !targetRole) {
+        status = 'added';
+      } else if (!sourceRole && targetRole) {
+        status = 'removed';
+      } else {
+        const attachmentsDiffer = policies.added.length > 0 || policies.removed.length > 0;
+        status = changes.length > 0 || attachmentsDiffer ? 'modified' : 'identical';
+      }
+
+      diffs.push({
+        key: (targetRole || sourceRole)!.id,
+        name: sourceRole?.name || targetRole?.name || 'Unnamed Role',
+        sourceRole,
+        targetRole,
+        sourceParentName,
+        targetParentName,
+        targetParent,
+        changes,
+        policies,
+        status,
+      });
+    }
+
+    return diffs.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private compareAttachments(
+    sourceAccess: RoleAccess[],
+    targetAccess: RoleAccess[],
+    sourceToTargetPolicy: Map<string, string>
+  ): RoleDiff['policies'] {
+    const targetByPolicy = new Map(targetAccess.map(a => [a.policy, a]));
+    const matchedTargetPolicies = new Set<string>();
+    const added: AttachedPolicy[] = [];
+    const unchanged: AttachedPolicy[] = [];
+
+    for (const access of sourceAccess) {
+      const targetPolicy = sourceToTargetPolicy.get(access.policy) ?? null;
+      const targetRow = targetPolicy ? targetByPolicy.get(targetPolicy) : undefined;
+      const attachment: AttachedPolicy = {
+        name: access.policy_name || 'Unknown Policy',
+        sourcePolicy: access.policy,
+        targetPolicy,
+        targetAccessId: targetRow?.id ?? null,
+      };
+
+      if (targetRow) {
+        matchedTargetPolicies.add(targetRow.policy);
+        unchanged.push(attachment);
+      } else {
+        added.push(attachment);
+      }
+    }
+
+    const removed = targetAccess
+      .filter(a => !matchedTargetPolicies.has(a.policy))
+      .map(a => ({
+        name: a.policy_name || 'Unknown Policy',
+        sourcePolicy: null,
+        targetPolicy: a.policy,
+        targetAccessId: a.id,
+      }));
+
+    return { added, removed, unchanged };
+  }
+
+  /**
+   * Applies a role diff to the target: creates or updates the role itself, then attaches and
+   * detaches policies so the target role ends up with the same policies as the source.
+   * `createdRoles` maps source role IDs created earlier in the same batch to their target IDs,
+   * so children can be created right after their parents.
+   */
+  async syncRole(diff: RoleDiff, createdRoles: Map<string, string> = new Map()): Promise<string> {
+    if (!diff.sourceRole) {
+      // Users belong to roles, so removing one is left to the Directus admin
+      throw new Error(`Role "${diff.name}" only exists on the target; delete it in Directus if it is no longer needed`);
+    }
+
+    const unmatchedPolicies = diff.policies.added.filter(p => !p.targetPolicy);
+    if (unmatchedPolicies.length > 0) {
+      throw new Error(
+        `Policies ${unmatchedPolicies.map(p => `"${p.name}"`).join(', ')} have no matching policy on the target`
+      );
+    }
+
+    let parent: string | null = null;
+    if (diff.sourceRole.parent) {
+      parent = diff.targetParent ?? createdRoles.get(diff.sourceRole.parent) ?? null;
+      if (!parent) {
+        throw new Error(`Parent role "${diff.sourceParentName}" does not exist on the target`);
+      }
+    }
+
+    let roleId: string;
+    if (!diff.targetRole) {
+      await this.createRole(diff.sourceRole, parent);
+      roleId = diff.sourceRole.id;
+      createdRoles.set(diff.sourceRole.id, roleId);
+    } else {
+      roleId = diff.targetRole.id;
+      if (diff.changes.length > 0) {
+        await this.updateRole(diff.sourceRole, parent, roleId);
+      }
+    }
+
+    for (const attachment of diff.policies.removed) {
+      await this.targetDb.query('DELETE FROM directus_access WHERE id = ?', [attachment.targetAccessId]);
+    }
+
+    for (const attachment of diff.policies.added) {
+      await this.targetDb.query(
+        'INSERT INTO directus_access (id, role, policy, sort) VALUES (?, ?, ?, ?)',
+        [randomUUID(), roleId, attachment.targetPolicy, null]
+      );
+    }
+
+    return roleId;
+  }
+
+  private async createRole(role: Role, parent: string | null): Promise<void> {
+    const query = `
+      INSERT INTO directus_roles (id, name, icon, description, parent)
+      VALUES (?, ?, ?, ?, ?)
+    `;
+
+    await this.targetDb.query(query, [role.id, role.name, role.icon, role.description, parent]);
+  }
+
+  private async updateRole(sourceRole: Role, parent: string | null, targetId: string): Promise<void> {
+    const query = `
+      UPDATE directus_roles
+      SET name = ?, icon = ?, description = ?, parent = ?
+      WHERE id = ?
+    `;
+
+    await this.targetDb.query(query, [sourceRole.name, sourceRole.icon, sourceRole.description, parent, targetId]);
+  }
+}
+
+/**
+ * Orders role diffs so that parents are synced before their children.
+ */
+export function sortRoleDiffsByHierarchy(diffs: RoleDiff[]): RoleDiff[] {
+  const bySourceId = new Map(diffs.filter(d => d.sourceRole).map(d => [d.sourceRole!.id, d]));
+  const depth = (diff: RoleDiff, seen = new Set<string>()): number => {
+    const parent = diff.sourceRole?.parent;
+    if (!parent || !bySourceId.has(parent) || seen.has(parent)) return 0;
+    seen.add(parent);
+    return 1 + depth(bySourceId.get(parent)!, seen);
+  };
+
+  return [...diffs].sort((a, b) => depth(a) - depth(b));
+}
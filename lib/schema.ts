@@ -0,0 +1,73 @@
+import { DatabaseConnection } from './database';
+import { compareRecords, RecordDiff } from './records';
+
+export type SchemaDiff = RecordDiff & {
+  type: 'collection' | 'field' | 'relation';
+};
+
+export class SchemaComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async getCollections(db: DatabaseConnection): Promise<Record<string, any>[]> {
+    return db.queryRows('SELECT * FROM directus_collections ORDER BY collection');
+  }
+
+  async getFields(db: DatabaseConnection): Promise<Record<string, any>[]> {
+    return db.queryRows('SELECT * FROM directus_fields ORDER BY collection, field');
+  }
+
+  async getRelations(db: DatabaseConnection): Promise<Record<string, any>[]> {
+    return db.queryRows('SELECT * FROM directus_relations ORDER BY many_collection, many_field');
+  }
+
+  async compareSchema(): Promise<SchemaDiff[]> {
+    const [sourceCollections, targetCollections] = await Promise.all([
+      this.getCollections(this.sourceDb),
+      this.getCollections(this.targetDb),
+    ]);
+    const [sourceFields, targetFields] = await Promise.all([
+      this.getFields(this.sourceDb),
+      this.getFields(this.targetDb),
+    ]);
+    const [sourceRelations, targetRelations] = await Promise.all([
+      this.getRelations(this.sourceDb),
+      this.getRelations(this.targetDb),
+    ]);
+
+    const collectionDiffs = compareRecords(sourceCollections, targetCollections, {
+      type: 'collection',
+      getKey: row => row.collection,
+      getGroup: row => row.collection,
+    });
+
+    // Fields and relations have auto-increment IDs that never line up between instances
+    const fieldDiffs = compareRecords(sourceFields, targetFields, {
+      type: 'field',
+      getKey: row => `${row.collection}.${row.field}`,
+      getLabel: row => row.field,
+      getGroup: row => row.collection,
+      ignoreColumns: ['id'],
+    });
+
+    const relationDiffs = compareRecords(sourceRelations, targetRelations, {
+      type: 'relation',
+      getKey: row => `${row.many_collection}.${row.many_field}`,
+      getLabel: row => `${row.many_field} → ${row.one_collection || '(any)'}`,
+      getGroup: row => row.many_collection,
+      ignoreColumns: ['id'],
+    });
+
+    const typeOrder = ['collection', 'field', 'relation'];
+    return ([...collectionDiffs, ...fieldDiffs, ...relationDiffs] as SchemaDiff[]).sort((a, b) => {
+      if (a.group !== b.group) return a.group.localeCompare(b.group);
+      if (a.type !== b.type) return typeOrder.indexOf(a.type) - typeOrder.indexOf(b.type);
+      return a.label.localeCompare(b.label);
+    });
+  }
+}
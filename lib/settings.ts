@@ -0,0 +1,117 @@
+import { DatabaseConnection } from './database';
+import { DiffStatus, insertRecord, RecordDiff, updateRecord, valuesEqual } from './records';
+
+/**
+ * One column of the single directus_settings row. Source and target hold `{ [column]: value }`
+ * so the diff viewer shows the column name; JSON columns such as module_bar,
+ * storage_asset_presets and basemaps are compared by content and shown as JSON diffs.
+ */
+export type SettingDiff = RecordDiff<Record<string, any>> & { type: 'setting' };
+
+// Never compared: the row ID differs per instance
+const SETTINGS_KEY_COLUMNS = ['id'];
+
+// Groups in the UI, by column prefix; the first match wins
+const SETTING_GROUPS: Array<[string, string]> = [
+  ['project_', 'Project'],
+  ['public_', 'Public Pages'],
+  ['auth_', 'Security'],
+  ['storage_', 'Files'],
+  ['mapbox_', 'Maps'],
+  ['basemaps', 'Maps'],
+  ['module_bar', 'Appearance'],
+  ['custom_css', 'Appearance'],
+  ['theme', 'Appearance'],
+  ['default_', 'Appearance'],
+];
+
+function getSettingGroup(column: string): string {
+  return SETTING_GROUPS.find(([prefix]) => column.startsWith(prefix))?.[1] ?? 'Other';
+}
+
+export class SettingsComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+  // Columns left out on these environments, e.g. project_url (see `excludeSettings` in profiles)
+  private excludedColumns: string[];
+  // Set once `syncSetting` has created the target's settings row in this batch
+  private createdRow = false;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection, excludedColumns: string[] = []) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+    this.excludedColumns = excludedColumns;
+  }
+
+  /**
+   * Directus only creates the settings row once something is saved, so a fresh instance has
+   * none; that reads as an empty row.
+   */
+  async getSettings(db: DatabaseConnection): Promise<Record<string, any>> {
+    const rows = await db.queryRows('SELECT * FROM directus_settings ORDER BY id');
+    return rows[0] ?? {};
+  }
+
+  async compareSettings(): Promise<SettingDiff[]> {
+    const [source, target] = await Promise.all([
+      this.getSettings(this.sourceDb),
+      this.getSettings(this.targetDb),
+    ]);
+
+    const columns = Array.from(new Set([...Object.keys(source), ...Object.keys(target)]))
+      .filter(column => !SETTINGS_KEY_COLUMNS.includes(column) && !this.excludedColumns.includes(column));
+
+    const diffs = columns.map((column): SettingDiff => {
+      const inSource = column in source;
+      const inTarget = column in target;
+      let status: DiffStatus;
+      if (inSource && !inTarget) {
+        // An empty target row just means nothing has been saved there yet
+        status = Object.keys(target).length === 0 && valuesEqual(source[column], null) ? 'identical' : 'added';
+      } else if (!inSource) {
+        status = Object.keys(source).length === 0 && valuesEqual(target[column], null) ? 'identical' : 'removed';
+      } else {
+        status = valuesEqual(source[column], target[column]) ? 'identical' : 'modified';
+      }
+
+      return {
+        key: `setting:${column}`,
+        type: 'setting',
+        label: column,
+        group: getSettingGroup(column),
+        source: inSource ? { [column]: source[column] } : null,
+        target: inTarget ? { [column]: target[column] } : null,
+        changes: status === 'modified' ? [column] : [],
+        status,
+      };
+    });
+
+    return diffs.sort((a, b) => a.group !== b.group ? a.group.localeCompare(b.group) : a.label.localeCompare(b.label));
+  }
+
+  /**
+   * Copies one setting to the target. Each setting is synced on its own, so only the keys the
+   * user selected are written. On an instance that has no settings row yet, the first setting
+   * creates it with every setting of the batch (`batchDiffs`) and the database picks its id (an
+   * identity column on MSSQL); the others are then already in place. A dry run therefore
+   * records the same single INSERT as the real sync.
+   */
+  async syncSetting(diff: SettingDiff, batchDiffs: SettingDiff[] = [diff]): Promise<void> {
+    if (!diff.source) {
+      throw new Error(`${diff.label} is not set on the source; settings columns are never cleared or dropped`);
+    }
+    if (this.createdRow) {
+      return;
+    }
+
+    const rows = await this.targetDb.queryRows<{ id: number }>('SELECT id FROM directus_settings ORDER BY id');
+    if (rows.length === 0) {
+      const values = Object.assign({}, ...batchDiffs.map(batchDiff => batchDiff.source ?? {}));
+      await insertRecord(this.targetDb, 'directus_settings', values);
+      this.createdRow = true;
+      return;
+    }
+
+    await updateRecord(this.targetDb, 'directus_settings', diff.source, { id: rows[0].id });
+  }
+}
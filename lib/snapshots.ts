@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ConnectionInfo, DatabaseConnection } from './database';
+import { PermissionDiff } from './permissions';
+import { normalizeId } from './records';
+import { getDataDir, readJsonFile, writeJsonFile } from './storage';
+
+// A (policy, collection, action) slot in directus_permissions that a sync may touch
+export interface PermissionScope {
+  policy: string;
+  collection: string;
+  action: string;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: string;
+  // 'sync' snapshots are taken before a sync; 'restore' ones before restoring another snapshot
+  reason: 'sync' | 'restore';
+  target: ConnectionInfo;
+  scopeCount: number;
+  rowCount: number;
+  restoredFrom?: string;
+  restoredAt?: string;
+  syncSummary?: {
+    total: number;
+    successful: number;
+    failed: number;
+  };
+}
+
+export interface Snapshot extends SnapshotSummary {
+  scopes: PermissionScope[];
+  // Raw directus_permissions rows as they were on the target, including their ids
+  rows: Record<string, any>[];
+}
+
+// Keeps each batched SELECT well below the 2100 parameter limit of MSSQL
+const SCOPES_PER_QUERY = 200;
+
+const SNAPSHOT_ID_PATTERN = /^[\w-]+$/;
+
+// Snapshot IDs become file names, so anything that could leave the snapshot directory is refused
+export function isSnapshotId(id: unknown): id is string {
+  return typeof id === 'string' && SNAPSHOT_ID_PATTERN.test(id);
+}
+
+/**
+ * Returns the target permission slots the given diffs will write to. Permissions for policies
+ * created in the same sync land on the source policy id, which is what the new policy gets.
+ */
+export function getPermissionScopes(diffs: PermissionDiff[]): PermissionScope[] {
+  const scopes = new Map<string, PermissionScope>();
+
+  diffs.forEach(diff => {
+    const policy = diff.targetPermission?.policy ?? diff.targetPolicy ?? diff.sourcePolicy;
+    if (policy) {
+      scopes.set(`${policy}:${diff.collection}:${diff.action}`, { policy, collection: diff.collection, action: diff.action });
+    }
+  });
+
+  return Array.from(scopes.values());
+}
+
+export function rowsInScope(rows: Record<string, any>[], scope: PermissionScope): Record<string, any>[] {
+  return rows.filter(row => normalizeId(row.policy) === normalizeId(scope.policy) && row.collection === scope.collection && row.action === scope.action);
+}
+
+export function isSameTarget(a: ConnectionInfo, b: ConnectionInfo): boolean {
+  return a.type === b.type && a.server === b.server && a.database === b.database;
+}
+
+/**
+ * Stores pre-sync copies of the directus_permissions rows a sync is about to touch, as one JSON
+ * file per snapshot, and restores them on request. Only permissions are covered; policies and
+ * roles created by a sync are left in place on restore.
+ */
+export class SnapshotStore {
+  private dir: string;
+
+  constructor(dir = path.join(getDataDir(), 'snapshots')) {
+    this.dir = dir;
+  }
+
+  private filePath(id: string): string {
+    if (!isSnapshotId(id)) {
+      throw new Error(`Invalid snapshot id: ${id}`);
+    }
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  async list(): Promise<SnapshotSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const snapshots = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => readJsonFile<Snapshot>(path.join(this.dir, file)))
+    );
+
+    return snapshots
+      .filter((snapshot): snapshot is Snapshot => snapshot !== null)
+      .map(({ scopes, rows, ...summary }) => summary)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<Snapshot | null> {
+    return readJsonFile<Snapshot>(this.filePath(id));
+  }
+
+  /**
+   * Reads the current target rows for the given scopes and writes them to a new snapshot file
+   * before anything is changed.
+   */
+  async capture(
+    targetDb: DatabaseConnection,
+    scopes: PermissionScope[],
+    details: Pick<SnapshotSummary, 'reason' | 'restoredFrom'> = { reason: 'sync' }
+  ): Promise<Snapshot> {
+    const rows: Record<string, any>[] = [];
+    for (let i = 0; i < scopes.length; i += SCOPES_PER_QUERY) {
+      const chunk = scopes.slice(i, i + SCOPES_PER_QUERY);
+      const conditions = chunk.map(() => '(policy = ? AND collection = ? AND action = ?)').join(' OR ');
+      const params = chunk.flatMap(scope => [scope.policy, scope.collection, scope.action]);
+      rows.push(...await targetDb.queryRows(`SELECT * FROM directus_permissions WHERE ${conditions}`, params));
+    }
+
+    const createdAt = new Date().toISOString();
+    const snapshot: Snapshot = {
+      id: `${createdAt.replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}`,
+      createdAt,
+      ...details,
+      target: targetDb.getConnectionInfo(),
+      scopeCount: scopes.length,
+      rowCount: rows.length,
+      scopes,
+      rows,
+    };
+
+    await writeJsonFile(this.filePath(snapshot.id), snapshot);
+    return snapshot;
+  }
+
+  async update(id: string, changes: Partial<SnapshotSummary>): Promise<void> {
+    const snapshot = await this.get(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+    await writeJsonFile(this.filePath(id), { ...snapshot, ...changes, id });
+  }
+
+  /**
+   * Puts the snapshot's scopes back exactly as captured: rows created since are deleted, and
+   * changed or deleted rows are re-inserted with their original ids. The current state is
+   * snapshotted first, so a restore can itself be undone. Returns that new snapshot.
+   */
+  async restore(id: string, targetDb: DatabaseConnection): Promise<Snapshot> {
+    const snapshot = await this.get(id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+
+    const target = targetDb.getConnectionInfo();
+    if (!isSameTarget(snapshot.target, target)) {
+      throw new Error(`Snapshot ${id} was taken from ${snapshot.target.server} / ${snapshot.target.database}, not ${target.server} / ${target.database}`);
+    }
+
+    const safetySnapshot = await this.capture(targetDb, snapshot.scopes, { reason: 'restore', restoredFrom: id });
+
+    await targetDb.transaction(async trxDb => {
+      for (const scope of snapshot.scopes) {
+        await trxDb.query(
+          'DELETE FROM directus_permissions WHERE policy = ? AND collection = ? AND action = ?',
+          [scope.policy, scope.collection, scope.action]
+        );
+      }
+
+      // MSSQL refuses explicit values for the identity column unless told otherwise
+      const identityInsert = target.type === 'mssql' && snapshot.rows.length > 0;
+      if (identityInsert) {
+        await trxDb.query('SET IDENTITY_INSERT directus_permissions ON');
+      }
+
+      for (const row of snapshot.rows) {
+        const columns = Object.keys(row);
+        const values = columns.map(column => {
+          const value = row[column];
+          // PostgreSQL hands json columns back as objects; store them as JSON text again
+          return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+        });
+        await trxDb.query(
+          `INSERT INTO directus_permissions (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+          values
+        );
+      }
+
+      if (identityInsert) {
+        await trxDb.query('SET IDENTITY_INSERT directus_permissions OFF');
+      }
+    });
+
+    await this.update(id, { restoredAt: new Date().toISOString() });
+    return safetySnapshot;
+  }
+}
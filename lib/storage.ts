@@ -0,0 +1,29 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Directory for local state (sync snapshots, history). Configurable with DATA_DIR so it can
+ * live on a persistent volume; defaults to ./data next to the app.
+ */
+export function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || 'data');
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Write to a temp file first so a crash never leaves a half-written file behind
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,114 @@
+import { DatabaseConnection } from './database';
+
+export interface SyncResult {
+  key: string;
+  success: boolean;
+  message: string;
+  // Applied, but undone because another change in the same atomic batch failed
+  rolledBack?: boolean;
+  // Not attempted because an earlier change in the same atomic batch failed
+  skipped?: boolean;
+}
+
+export interface SyncOptions {
+  // Apply the whole batch in a single transaction and roll back on any failure
+  atomic?: boolean;
+}
+
+class RollbackSignal extends Error {
+  constructor() {
+    super('Atomic sync rolled back');
+    this.name = 'RollbackSignal';
+  }
+}
+
+/**
+ * Collects per-item results of a sync. In atomic mode it stops attempting changes after the
+ * first failure, since the transaction is going to be rolled back anyway (and PostgreSQL
+ * rejects every statement after an error in a transaction).
+ */
+export class SyncBatch {
+  readonly results: SyncResult[] = [];
+  private atomic: boolean;
+  private targetDb?: DatabaseConnection;
+
+  constructor(atomic = false, targetDb?: DatabaseConnection) {
+    this.atomic = atomic;
+    this.targetDb = targetDb;
+  }
+
+  get hasFailures(): boolean {
+    return this.results.some(r => !r.success);
+  }
+
+  async run(key: string, description: string, apply: () => Promise<void>): Promise<boolean> {
+    if (this.atomic && this.hasFailures) {
+      this.results.push({
+        key,
+        success: false,
+        skipped: true,
+        message: `Skipped ${description}: an earlier change in this atomic sync failed`,
+      });
+      return false;
+    }
+
+    try {
+      this.targetDb?.annotate(description);
+      await apply();
+      this.results.push({ key, success: true, message: `Successfully synced ${description}` });
+      return true;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      this.targetDb?.annotate(`FAILED: ${reason}`);
+      this.results.push({
+        key,
+        success: false,
+        message: `Failed to sync ${description}: ${reason}`,
+      });
+      return false;
+    }
+  }
+
+  markRolledBack(): void {
+    this.results.forEach(result => {
+      if (result.success) {
+        result.success = false;
+        result.rolledBack = true;
+        result.message = `Rolled back: ${result.message}`;
+      }
+    });
+  }
+}
+
+/**
+ * Runs `apply` against the target, either directly or, in atomic mode, inside one transaction
+ * that is rolled back as soon as any item in the batch fails.
+ */
+export async function runSyncBatch(
+  targetDb: DatabaseConnection,
+  options: SyncOptions,
+  apply: (targetDb: DatabaseConnection, batch: SyncBatch) => Promise<void>
+): Promise<SyncResult[]> {
+  const batch = new SyncBatch(options.atomic, targetDb);
+
+  if (!options.atomic) {
+    await apply(targetDb, batch);
+    return batch.results;
+  }
+
+  try {
+    await targetDb.transaction(async trxDb => {
+      await apply(trxDb, batch);
+      if (batch.hasFailures) {
+        throw new RollbackSignal();
+      }
+    });
+  } catch (error) {
+    if (!(error instanceof RollbackSignal)) {
+      throw error;
+    }
+    batch.markRolledBack();
+  }
+
+  return batch.results;
+}
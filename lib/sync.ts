@@ -0,0 +1,246 @@
+import { AuditLog, buildAuditChanges } from './audit';
+import { ContentComparator, ItemDiff } from './content';
+import { DashboardComparator, DashboardDiff } from './dashboards';
+import { DatabaseConnection } from './database';
+import { FlowComparator, FlowDiff } from './flows';
+import { FolderComparator, FolderDiff, sortFolderDiffs } from './folders';
+import { PermissionComparator, PermissionDiff } from './permissions';
+import { checkSyncRequest, PreflightError, PreflightProblem } from './preflight';
+import { PolicyComparator, PolicyDiff } from './policies';
+import { PresetComparator, PresetDiff } from './presets';
+import { RecordDiff } from './records';
+import { RoleComparator, RoleDiff, sortRoleDiffsByHierarchy } from './roles';
+import { SettingDiff, SettingsComparator } from './settings';
+import { getPermissionScopes, SnapshotStore } from './snapshots';
+import { runSyncBatch, SyncOptions, SyncResult } from './sync-batch';
+import { TranslationComparator, TranslationDiff } from './translations';
+
+export interface SyncRequest {
+  diffs: PermissionDiff[];
+  policyDiffs?: PolicyDiff[];
+  roleDiffs?: RoleDiff[];
+  // Diffs from the record sections (e.g. presets), synced according to their `type`
+  recordDiffs?: RecordDiff[];
+}
+
+export interface RecordedSyncOptions extends SyncOptions {
+  // Who triggered the sync, for the audit log
+  actor: string;
+}
+
+export interface RecordedSync {
+  results: SyncResult[];
+  rolledBack: boolean;
+  snapshotId: string | null;
+  summary: {
+    total: number;
+    successful: number;
+    failed: number;
+  };
+}
+
+export interface SyncPreview {
+  sql: string;
+  statementCount: number;
+  results: SyncResult[];
+  // Pre-flight problems that would block the real sync
+  problems: PreflightProblem[];
+}
+
+/**
+ * Applies selected diffs from source to target in dependency order: policies first, then roles
+ * (parents before children), then permissions and records, so new permissions, role attachments
+ * and presets can point at policies and roles created in the same batch.
+ */
+export async function syncChanges(
+  sourceDb: DatabaseConnection,
+  targetDb: DatabaseConnection,
+  request: SyncRequest,
+  options: SyncOptions = {}
+): Promise<SyncResult[]> {
+  const { diffs, policyDiffs = [], roleDiffs = [], recordDiffs = [] } = request;
+
+  return runSyncBatch(targetDb, options, async (db, batch) => {
+    const policyComparator = new PolicyComparator(sourceDb, db);
+    const roleComparator = new RoleComparator(sourceDb, db);
+    const permissionComparator = new PermissionComparator(sourceDb, db);
+    const presetComparator = new PresetComparator(sourceDb, db);
+    const flowComparator = new FlowComparator(sourceDb, db);
+    const dashboardComparator = new DashboardComparator(sourceDb, db);
+    const settingsComparator = new SettingsComparator(sourceDb, db);
+    const translationComparator = new TranslationComparator(sourceDb, db);
+    const folderComparator = new FolderComparator(sourceDb, db);
+    const contentComparator = new ContentComparator(sourceDb, db);
+
+    const syncedPolicies = new Map<string, string>();
+    for (const diff of policyDiffs) {
+      await batch.run(`policy:${diff.key}`, `policy ${diff.name}`, async () => {
+        const targetPolicyId = await policyComparator.syncPolicy(diff);
+        if (diff.sourcePolicy) {
+          syncedPolicies.set(diff.sourcePolicy.id, targetPolicyId);
+        }
+      });
+    }
+
+    const createdRoles = new Map<string, string>();
+    for (const diff of sortRoleDiffsByHierarchy(roleDiffs)) {
+      diff.policies.added.forEach(attachment => {
+        if (!attachment.targetPolicy && attachment.sourcePolicy && syncedPolicies.has(attachment.sourcePolicy)) {
+          attachment.targetPolicy = syncedPolicies.get(attachment.sourcePolicy)!;
+        }
+      });
+      await batch.run(`role:${diff.key}`, `role ${diff.name}`, async () => {
+        await roleComparator.syncRole(diff, createdRoles);
+      });
+    }
+
+    diffs.forEach(diff => {
+      if (!diff.targetPolicy && diff.sourcePolicy && syncedPolicies.has(diff.sourcePolicy)) {
+        diff.targetPolicy = syncedPolicies.get(diff.sourcePolicy)!;
+      }
+    });
+    await permissionComparator.syncPermissions(diffs, { batch });
+
+    // Folders are synced parent-first; the other record types do not depend on each other
+    const createdFolders = new Map<string, string>();
+    const settingDiffs = recordDiffs.filter(diff => diff.type === 'setting') as SettingDiff[];
+    const orderedRecordDiffs = [
+      ...sortFolderDiffs(recordDiffs.filter(diff => diff.type === 'folder') as FolderDiff[]),
+      ...recordDiffs.filter(diff => diff.type !== 'folder'),
+    ];
+
+    for (const diff of orderedRecordDiffs) {
+      await batch.run(diff.key, `${diff.type} ${diff.group ? `${diff.group} → ` : ''}${diff.label}`, async () => {
+        if (diff.type === 'preset') {
+          await presetComparator.syncPreset(diff as PresetDiff, createdRoles);
+        } else if (diff.type === 'flow') {
+          await flowComparator.syncFlow(diff as FlowDiff);
+        } else if (diff.type === 'dashboard') {
+          await dashboardComparator.syncDashboard(diff as DashboardDiff);
+        } else if (diff.type === 'setting') {
+          await settingsComparator.syncSetting(diff as SettingDiff, settingDiffs);
+        } else if (diff.type === 'translation') {
+          await translationComparator.syncTranslation(diff as TranslationDiff);
+        } else if (diff.type === 'folder') {
+          await folderComparator.syncFolder(diff as FolderDiff, createdFolders);
+        } else if (diff.type === 'item') {
+          await contentComparator.syncItem(diff as ItemDiff);
+        } else {
+          throw new Error(`Syncing ${diff.type} records is not supported`);
+        }
+      });
+    }
+  });
+}
+
+/**
+ * Renders the SQL script `syncChanges` would run against the target, without writing anything.
+ * Items that would fail (e.g. a permission whose policy is missing on the target) are reported
+ * in `results` and contribute no statements.
+ */
+export async function previewChanges(
+  sourceDb: DatabaseConnection,
+  targetDb: DatabaseConnection,
+  request: SyncRequest
+): Promise<SyncPreview> {
+  const problems = await checkSyncRequest(targetDb, request);
+  let results: SyncResult[] = [];
+  const statements = await targetDb.dryRun(async dryRunDb => {
+    results = await syncChanges(sourceDb, dryRunDb, request);
+  });
+
+  const target = targetDb.getConnectionInfo();
+  const header = [
+    '-- Directus Compare sync preview',
+    `-- Target: ${target.server} / ${target.database} (${target.type})`,
+    `-- Generated: ${new Date().toISOString()}`,
+    '-- Review before running; nothing has been applied.',
+    ...problems.map(problem => `-- BLOCKED: ${problem.message}`),
+  ];
+  const body = statements.map(statement => statement.startsWith('-- ')
+    ? `\n${statement}`
+    : `${statement.split('\n').map(line => line.trim()).filter(line => line).join('\n')};`);
+
+  return {
+    sql: [...header, ...body].join('\n') + '\n',
+    statementCount: statements.filter(statement => !statement.startsWith('-- ')).length,
+    results,
+    problems,
+  };
+}
+
+/**
+ * Runs `syncChanges` with the safety net every entry point should use: the request is checked
+ * against the target first (see `checkSyncRequest`) and refused with a `PreflightError` if
+ * anything cannot be applied, the affected target permissions are snapshotted, and the outcome
+ * (or the error, including a refusal) goes to the audit log.
+ */
+export async function syncWithHistory(
+  sourceDb: DatabaseConnection,
+  targetDb: DatabaseConnection,
+  request: SyncRequest,
+  options: RecordedSyncOptions
+): Promise<RecordedSync> {
+  const { actor, atomic = false } = options;
+
+  const auditLog = new AuditLog();
+  const baseAuditDetails = {
+    operation: 'sync' as const,
+    actor,
+    atomic,
+    source: sourceDb.getConnectionInfo(),
+    target: targetDb.getConnectionInfo(),
+  };
+
+  const problems = await checkSyncRequest(targetDb, request);
+  if (problems.length > 0) {
+    const error = new PreflightError(problems);
+    await auditLog.append({
+      ...baseAuditDetails,
+      snapshotId: null,
+      rolledBack: false,
+      summary: { total: 0, successful: 0, failed: 0 },
+      changes: buildAuditChanges(request, []),
+      error: error.message,
+    });
+    throw error;
+  }
+
+  const snapshotStore = new SnapshotStore();
+  const snapshot = request.diffs.length > 0
+    ? await snapshotStore.capture(targetDb, getPermissionScopes(request.diffs))
+    : null;
+
+  const auditDetails = { ...baseAuditDetails, snapshotId: snapshot?.id ?? null };
+
+  let results: SyncResult[];
+  try {
+    results = await syncChanges(sourceDb, targetDb, request, { atomic });
+  } catch (error) {
+    await auditLog.append({
+      ...auditDetails,
+      rolledBack: false,
+      summary: { total: 0, successful: 0, failed: 0 },
+      changes: buildAuditChanges(request, []),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    throw error;
+  }
+
+  const rolledBack = results.some(r => r.rolledBack || r.skipped);
+  const successful = results.filter(r => r.success).length;
+  const summary = { total: results.length, successful, failed: results.length - successful };
+
+  if (snapshot) {
+    await snapshotStore.update(snapshot.id, { syncSummary: summary });
+  }
+
+  await auditLog.append({
+    ...auditDetails,
+    rolledBack,
+    summary,
+    changes: buildAuditChanges(request, results),
+  });
+
+  return { results, rolledBack, snapshotId: snapshot?.id ?? null, summary };
+}
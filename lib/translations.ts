@@ -0,0 +1,63 @@
+import { DatabaseConnection } from './database';
+import { compareRecords, insertRecord, normalizeId, omitColumns, RecordDiff, updateRecord } from './records';
+
+// A row of directus_translations: a custom translation string for one language
+export interface Translation extends Record<string, any> {
+  id: string;
+  language: string;
+  key: string;
+  value: string | null;
+}
+
+export type TranslationDiff = RecordDiff<Translation> & { type: 'translation' };
+
+const TRANSLATION_IGNORED_COLUMNS = ['id'];
+
+export class TranslationComparator {
+  private sourceDb: DatabaseConnection;
+  private targetDb: DatabaseConnection;
+
+  constructor(sourceDb: DatabaseConnection, targetDb: DatabaseConnection) {
+    this.sourceDb = sourceDb;
+    this.targetDb = targetDb;
+  }
+
+  async getTranslations(db: DatabaseConnection): Promise<Translation[]> {
+    const rows = await db.queryRows<Translation>('SELECT * FROM directus_translations ORDER BY ??, language', ['key']);
+    return rows.map(row => ({ ...row, id: normalizeId(row.id) }));
+  }
+
+  // Translations pair by key and language; their IDs are generated per instance
+  async compareTranslations(): Promise<TranslationDiff[]> {
+    const [sourceTranslations, targetTranslations] = await Promise.all([
+      this.getTranslations(this.sourceDb),
+      this.getTranslations(this.targetDb),
+    ]);
+
+    const diffs = compareRecords(sourceTranslations, targetTranslations, {
+      type: 'translation',
+      getKey: translation => `${translation.key}:${translation.language}`,
+      getLabel: translation => translation.key,
+      getGroup: translation => translation.language,
+      ignoreColumns: TRANSLATION_IGNORED_COLUMNS,
+    });
+
+    return diffs.map(diff => ({ ...diff, type: 'translation' as const }));
+  }
+
+  async syncTranslation(diff: TranslationDiff): Promise<void> {
+    if (!diff.source) {
+      await this.targetDb.query('DELETE FROM directus_translations WHERE id = ?', [diff.target!.id]);
+      return;
+    }
+
+    const values = omitColumns(diff.source, TRANSLATION_IGNORED_COLUMNS);
+
+    if (!diff.target) {
+      await insertRecord(this.targetDb, 'directus_translations', { id: diff.source.id, ...values });
+      return;
+    }
+
+    await updateRecord(this.targetDb, 'directus_translations', values, { id: diff.target.id });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ContentComparator } from '../../lib/content';
+import { getProfileConnections } from '../../lib/profiles';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const { sourceDb, targetDb } = getProfileConnections(
+      typeof req.query.source === 'string' ? req.query.source : null,
+      typeof req.query.target === 'string' ? req.query.target : null
+    );
+
+    if (!sourceDb || !targetDb) {
+      return res.status(400).json({
+        success: false,
+        message: 'Database connections not configured. Please check your connection profiles and environment variables.'
+      });
+    }
+
+    if (sourceDb.isSnapshot() || targetDb.isSnapshot()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Content comparison needs live databases on both sides; snapshot files only contain Directus configuration.'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: await new ContentComparator(sourceDb, targetDb).getCollections(),
+    });
+  } catch (error) {
+    console.error('Collections error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to list collections',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
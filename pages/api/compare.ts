@@ -1,6 +1,19 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getSourceDb, getTargetDb } from '../../lib/database';
+import { ContentCollectionError, ContentComparator, ContentComparison } from '../../lib/content';
+import { DashboardComparator } from '../../lib/dashboards';
+import { FlowComparator } from '../../lib/flows';
+import { FolderComparator } from '../../lib/folders';
+import { IgnoreStore } from '../../lib/ignore';
 import { PermissionComparator } from '../../lib/permissions';
+import { isPolicyOverrides, PolicyComparator, PolicyOverrides } from '../../lib/policies';
+import { PresetComparator } from '../../lib/presets';
+import { getDatabase, getExcludedSettings, getProfileConnections } from '../../lib/profiles';
+import { RoleComparator } from '../../lib/roles';
+import { summarizeDiffs } from '../../lib/records';
+import { SchemaComparator } from '../../lib/schema';
+import { SettingsComparator } from '../../lib/settings';
+import { TranslationComparator } from '../../lib/translations';
+import { TableDriftComparator } from '../../lib/introspection';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -8,36 +21,199 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const flipped = req.query.flipped === 'true';
-    const sourceDb = getSourceDb(flipped);
-    const targetDb = getTargetDb(flipped);
+    const { sourceDb, targetDb, sourceProfile, targetProfile } = getProfileConnections(
+      typeof req.query.source === 'string' ? req.query.source : null,
+      typeof req.query.target === 'string' ? req.query.target : null
+    );
     
     if (!sourceDb || !targetDb) {
       return res.status(400).json({
         success: false,
-        message: 'Database connections not configured. Please check your environment variables.'
+        message: 'Database connections not configured. Please check your connection profiles and environment variables.'
       });
     }
 
-    const comparator = new PermissionComparator(sourceDb, targetDb);
-    const diffs = await comparator.comparePermissions();
+    const section = typeof req.query.section === 'string' ? req.query.section : 'permissions';
+
+    if (section === 'schema') {
+      const schemaComparator = new SchemaComparator(sourceDb, targetDb);
+      const schemaDiffs = await schemaComparator.compareSchema();
+      return res.status(200).json({
+        success: true,
+        data: schemaDiffs,
+        summary: summarizeDiffs(schemaDiffs),
+      });
+    }
+
+    if (section === 'database') {
+      if (sourceDb.isSnapshot() || targetDb.isSnapshot()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Database drift needs live databases on both sides; snapshot files only contain Directus configuration.'
+        });
+      }
+
+      const driftComparator = new TableDriftComparator(sourceDb, targetDb);
+      const driftDiffs = await driftComparator.compareTables();
+      return res.status(200).json({
+        success: true,
+        data: driftDiffs,
+        summary: summarizeDiffs(driftDiffs),
+      });
+    }
+
+    if (section === 'presets') {
+      const presetDiffs = await new PresetComparator(sourceDb, targetDb).comparePresets();
+      return res.status(200).json({
+        success: true,
+        data: presetDiffs,
+        summary: summarizeDiffs(presetDiffs),
+      });
+    }
+
+    if (section === 'flows') {
+      const flowDiffs = await new FlowComparator(sourceDb, targetDb).compareFlows();
+      return res.status(200).json({
+        success: true,
+        data: flowDiffs,
+        summary: summarizeDiffs(flowDiffs),
+      });
+    }
+
+    if (section === 'dashboards') {
+      const dashboardDiffs = await new DashboardComparator(sourceDb, targetDb).compareDashboards();
+      return res.status(200).json({
+        success: true,
+        data: dashboardDiffs,
+        summary: summarizeDiffs(dashboardDiffs),
+      });
+    }
+
+    if (section === 'settings') {
+      const settingsComparator = new SettingsComparator(sourceDb, targetDb, getExcludedSettings(sourceProfile, targetProfile));
+      const settingDiffs = await settingsComparator.compareSettings();
+      return res.status(200).json({
+        success: true,
+        data: settingDiffs,
+        summary: summarizeDiffs(settingDiffs),
+      });
+    }
+
+    if (section === 'translations') {
+      const translationDiffs = await new TranslationComparator(sourceDb, targetDb).compareTranslations();
+      return res.status(200).json({
+        success: true,
+        data: translationDiffs,
+        summary: summarizeDiffs(translationDiffs),
+      });
+    }
+
+    if (section === 'folders') {
+      const folderDiffs = await new FolderComparator(sourceDb, targetDb).compareFolders();
+      return res.status(200).json({
+        success: true,
+        data: folderDiffs,
+        summary: summarizeDiffs(folderDiffs),
+      });
+    }
+
+    if (section === 'content') {
+      if (sourceDb.isSnapshot() || targetDb.isSnapshot()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Content comparison needs live databases on both sides; snapshot files only contain Directus configuration.'
+        });
+      }
+
+      const collections = typeof req.query.collections === 'string'
+        ? req.query.collections.split(',').map(collection => collection.trim()).filter(collection => collection)
+        : [];
+      if (collections.length === 0) {
+        return res.status(400).json({ success: false, message: 'Select at least one collection to compare' });
+      }
+
+      let comparison: ContentComparison;
+      try {
+        comparison = await new ContentComparator(sourceDb, targetDb).compareCollections(collections);
+      } catch (error) {
+        if (error instanceof ContentCollectionError) {
+          return res.status(400).json({ success: false, message: error.message });
+        }
+        throw error;
+      }
+      const { diffs: itemDiffs, summary } = comparison;
+      return res.status(200).json({
+        success: true,
+        data: itemDiffs,
+        summary,
+      });
+    }
+
+    if (section !== 'permissions') {
+      return res.status(400).json({
+        success: false,
+        message: `Unknown comparison section: ${section}`
+      });
+    }
+
+    let policyOverrides: PolicyOverrides = {};
+    if (typeof req.query.policyMap === 'string' && req.query.policyMap) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(req.query.policyMap);
+      } catch {
+        parsed = undefined;
+      }
+      if (!isPolicyOverrides(parsed)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Invalid policyMap parameter. Expected a JSON object of source to target policy IDs.'
+        });
+      }
+      policyOverrides = parsed;
+    }
+
+    const baseline = typeof req.query.baseline === 'string' ? req.query.baseline : '';
+    const baselineDb = baseline ? getDatabase(baseline) : null;
+    if (baseline && !baselineDb) {
+      return res.status(400).json({
+        success: false,
+        message: `Baseline profile "${baseline}" not found`
+      });
+    }
+
+    const ignoreRules = req.query.includeIgnored === 'true' ? [] : await new IgnoreStore().list();
+    const comparator = new PermissionComparator(sourceDb, targetDb, policyOverrides, ignoreRules);
+    const policyMatches = await comparator.matchPolicies();
+    const diffs = baselineDb
+      ? await comparator.compareWithBaseline(baselineDb)
+      : await comparator.comparePermissions();
+
+    const policyComparator = new PolicyComparator(sourceDb, targetDb, policyOverrides);
+    const policyDiffs = await policyComparator.comparePolicies(policyMatches);
+
+    const roleComparator = new RoleComparator(sourceDb, targetDb, policyOverrides);
+    const roleDiffs = await roleComparator.compareRoles(policyMatches);
     
     res.status(200).json({
       success: true,
       data: diffs,
-      summary: {
-        total: diffs.length,
-        added: diffs.filter(d => d.status === 'added').length,
-        removed: diffs.filter(d => d.status === 'removed').length,
-        modified: diffs.filter(d => d.status === 'modified').length,
-        identical: diffs.filter(d => d.status === 'identical').length,
+      policyMatches,
+      summary: summarizeDiffs(diffs),
+      policies: {
+        data: policyDiffs,
+        summary: summarizeDiffs(policyDiffs),
+      },
+      roles: {
+        data: roleDiffs,
+        summary: summarizeDiffs(roleDiffs),
       }
     });
   } catch (error) {
     console.error('Comparison error:', error);
     res.status(500).json({ 
       success: false, 
-      message: 'Failed to compare permissions',
+      message: 'Failed to compare instances',
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
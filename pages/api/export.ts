@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { exportInstanceSnapshot, formatInstanceSnapshot } from '../../lib/instance-snapshot';
+import { getDatabase } from '../../lib/profiles';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const profile = typeof req.query.profile === 'string' ? req.query.profile : '';
+  const format = req.query.format === 'yaml' ? 'yaml' : 'json';
+
+  try {
+    const db = getDatabase(profile);
+    if (!db) {
+      return res.status(404).json({ success: false, message: `Connection profile "${profile}" not found` });
+    }
+
+    const snapshot = await exportInstanceSnapshot(db);
+    const fileName = `${profile.replace(/[^\w.-]/g, '_')}-${snapshot.exportedAt.slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Type', format === 'yaml' ? 'application/yaml' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.status(200).send(formatInstanceSnapshot(snapshot, format));
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export snapshot',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AuditLog } from '../../lib/audit';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const limit = typeof req.query.limit === 'string' ? parseInt(req.query.limit, 10) : undefined;
+    const entries = await new AuditLog().list(limit && limit > 0 ? limit : undefined);
+
+    res.status(200).json({ success: true, data: entries });
+  } catch (error) {
+    console.error('History error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to read sync history',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
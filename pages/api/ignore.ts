@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getActor } from '../../lib/audit';
+import { IgnoreStore, validateIgnoreRule } from '../../lib/ignore';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const ignoreStore = new IgnoreStore();
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, data: await ignoreStore.list() });
+    }
+
+    if (req.method === 'POST') {
+      let rule;
+      try {
+        rule = validateIgnoreRule(req.body ?? {});
+      } catch (error) {
+        return res.status(400).json({ success: false, message: error instanceof Error ? error.message : 'Invalid ignore rule' });
+      }
+
+      const created = await ignoreStore.add(rule, getActor(req.headers));
+      return res.status(200).json({ success: true, data: created });
+    }
+
+    if (req.method === 'DELETE') {
+      if (typeof req.query.id !== 'string') {
+        return res.status(400).json({ success: false, message: 'Expected an ignore rule id' });
+      }
+      if (!(await ignoreStore.remove(req.query.id))) {
+        return res.status(404).json({ success: false, message: 'Ignore rule not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    console.error('Ignore rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process ignore rules request',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
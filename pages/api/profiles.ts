@@ -0,0 +1,25 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getDefaultProfiles, loadProfiles, summarizeProfile } from '../../lib/profiles';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const profiles = loadProfiles();
+
+    res.status(200).json({
+      success: true,
+      data: profiles.map(summarizeProfile),
+      defaults: getDefaultProfiles(profiles)
+    });
+  } catch (error) {
+    console.error('Profiles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to load connection profiles',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
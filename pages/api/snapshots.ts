@@ -0,0 +1,89 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { AuditLog, getActor } from '../../lib/audit';
+import { getDatabase, loadProfiles } from '../../lib/profiles';
+import { isSameTarget, isSnapshotId, rowsInScope, SnapshotStore } from '../../lib/snapshots';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const snapshotStore = new SnapshotStore();
+
+  try {
+    if (req.method === 'GET') {
+      if (typeof req.query.id === 'string') {
+        if (!isSnapshotId(req.query.id)) {
+          return res.status(400).json({ success: false, message: 'Invalid snapshot id' });
+        }
+        const snapshot = await snapshotStore.get(req.query.id);
+        if (!snapshot) {
+          return res.status(404).json({ success: false, message: 'Snapshot not found' });
+        }
+        return res.status(200).json({ success: true, data: snapshot });
+      }
+
+      return res.status(200).json({ success: true, data: await snapshotStore.list() });
+    }
+
+    if (req.method === 'POST') {
+      const { id }: { id?: unknown } = req.body;
+      if (!isSnapshotId(id)) {
+        return res.status(400).json({ success: false, message: 'Invalid request body. Expected a snapshot id.' });
+      }
+
+      const snapshot = await snapshotStore.get(id);
+      if (!snapshot) {
+        return res.status(404).json({ success: false, message: 'Snapshot not found' });
+      }
+
+      // Restore to whichever configured profile points at the database the snapshot came from,
+      // preferring the profile it was taken through
+      const targetDb = loadProfiles()
+        .sort((a, b) => Number(b.name === snapshot.target.profile) - Number(a.name === snapshot.target.profile))
+        .map(profile => getDatabase(profile.name))
+        .find(db => db && isSameTarget(db.getConnectionInfo(), snapshot.target));
+
+      if (!targetDb) {
+        return res.status(400).json({
+          success: false,
+          message: `The database this snapshot was taken from (${snapshot.target.server} / ${snapshot.target.database}) is not configured.`
+        });
+      }
+
+      const safetySnapshot = await snapshotStore.restore(id, targetDb);
+
+      await new AuditLog().append({
+        operation: 'restore',
+        actor: getActor(req.headers),
+        atomic: true,
+        source: null,
+        target: targetDb.getConnectionInfo(),
+        snapshotId: id,
+        rolledBack: false,
+        summary: { total: snapshot.scopeCount, successful: snapshot.scopeCount, failed: 0 },
+        changes: snapshot.scopes.map(scope => ({
+          key: `${scope.policy}:${scope.collection}:${scope.action}`,
+          type: 'permission',
+          status: 'restored',
+          label: `${scope.collection}:${scope.action} for policy ${scope.policy}`,
+          before: rowsInScope(safetySnapshot.rows, scope),
+          after: rowsInScope(snapshot.rows, scope),
+          success: true,
+          message: null,
+        })),
+      });
+
+      return res.status(200).json({
+        success: true,
+        message: `Restored ${snapshot.rowCount} permission rows across ${snapshot.scopeCount} slots`,
+        snapshotId: safetySnapshot.id
+      });
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    console.error('Snapshot error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process snapshot request',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -1,6 +1,12 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getSourceDb, getTargetDb } from '../../lib/database';
-import { PermissionComparator, PermissionDiff } from '../../lib/permissions';
+import { getActor } from '../../lib/audit';
+import { PermissionDiff } from '../../lib/permissions';
+import { PolicyDiff } from '../../lib/policies';
+import { PreflightError } from '../../lib/preflight';
+import { getProfileConnections } from '../../lib/profiles';
+import { RecordDiff } from '../../lib/records';
+import { RoleDiff } from '../../lib/roles';
+import { previewChanges, syncWithHistory } from '../../lib/sync';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -8,58 +14,90 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { diffs, flipped }: { diffs: PermissionDiff[], flipped?: boolean } = req.body;
-    const sourceDb = getSourceDb(flipped);
-    const targetDb = getTargetDb(flipped);
+    const { diffs, policyDiffs = [], roleDiffs = [], recordDiffs = [], source, target, atomic = false, dryRun = false }: {
+      diffs: PermissionDiff[],
+      policyDiffs?: PolicyDiff[],
+      roleDiffs?: RoleDiff[],
+      recordDiffs?: RecordDiff[],
+      source?: string,
+      target?: string,
+      atomic?: boolean,
+      dryRun?: boolean
+    } = req.body;
+    const { sourceDb, targetDb, sourceProfile, targetProfile } = getProfileConnections(source, target);
     
     if (!sourceDb || !targetDb) {
       return res.status(400).json({
         success: false,
-        message: 'Database connections not configured. Please check your environment variables.'
+        message: 'Database connections not configured. Please check your connection profiles and environment variables.'
+      });
+    }
+
+    if (sourceProfile === targetProfile) {
+      return res.status(400).json({
+        success: false,
+        message: 'Source and target must be different connection profiles.'
+      });
+    }
+
+    if (targetDb.isSnapshot()) {
+      return res.status(400).json({
+        success: false,
+        message: 'The target is a snapshot file, which is read-only. Pick a live database as the target to sync.'
       });
     }
     
-    if (!diffs || !Array.isArray(diffs)) {
+    if (!diffs || !Array.isArray(diffs) || !Array.isArray(policyDiffs) || !Array.isArray(roleDiffs) || !Array.isArray(recordDiffs)) {
       return res.status(400).json({ 
         success: false, 
         message: 'Invalid request body. Expected array of diffs.' 
       });
     }
 
-    const comparator = new PermissionComparator(sourceDb, targetDb);
-    const results = [];
+    if (dryRun) {
+      const preview = await previewChanges(sourceDb, targetDb, { diffs, policyDiffs, roleDiffs, recordDiffs });
+      const failureCount = preview.results.filter(r => !r.success).length;
 
-    for (const diff of diffs) {
-      try {
-        await comparator.syncPermission(diff);
-        results.push({
-          key: diff.key,
-          success: true,
-          message: `Successfully synced ${diff.collection}:${diff.action} for policy ${diff.policy_name}`
-        });
-      } catch (error) {
-        results.push({
-          key: diff.key,
-          success: false,
-          message: `Failed to sync ${diff.collection}:${diff.action} for policy ${diff.policy_name}: ${error instanceof Error ? error.message : 'Unknown error'}`
-        });
-      }
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        message: preview.problems.length > 0
+          ? `Preview generated: ${preview.problems.length} problems would block this sync (listed at the top of the script)`
+          : `Preview generated: ${preview.statementCount} statements, ${failureCount} changes would fail`,
+        sql: preview.sql,
+        statementCount: preview.statementCount,
+        results: preview.results,
+        problems: preview.problems
+      });
     }
 
-    const successCount = results.filter(r => r.success).length;
-    const failureCount = results.filter(r => !r.success).length;
+    const { results, rolledBack, snapshotId, summary } = await syncWithHistory(
+      sourceDb,
+      targetDb,
+      { diffs, policyDiffs, roleDiffs, recordDiffs },
+      { atomic, actor: getActor(req.headers) }
+    );
 
     res.status(200).json({
-      success: failureCount === 0,
-      message: `Sync completed: ${successCount} successful, ${failureCount} failed`,
+      success: summary.failed === 0,
+      message: rolledBack
+        ? `Atomic sync rolled back: ${results.filter(r => !r.success && !r.rolledBack && !r.skipped).length} failed, nothing was applied`
+        : `Sync completed: ${summary.successful} successful, ${summary.failed} failed`,
+      atomic,
+      rolledBack,
+      snapshotId,
       results,
-      summary: {
-        total: results.length,
-        successful: successCount,
-        failed: failureCount
-      }
+      summary
     });
   } catch (error) {
+    if (error instanceof PreflightError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+        problems: error.problems
+      });
+    }
+
     console.error('Sync error:', error);
     res.status(500).json({ 
       success: false, 
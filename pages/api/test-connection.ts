@@ -1,31 +1,35 @@
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getSourceDb, getTargetDb, getConnectionInfo } from '../../lib/database';
+import { getProfileConnections } from '../../lib/profiles';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
-  const flipped = req.query.flipped === 'true';
+  const source = typeof req.query.source === 'string' ? req.query.source : null;
+  const target = typeof req.query.target === 'string' ? req.query.target : null;
 
   const results = {
     source: { 
       connected: false, 
       error: null as string | null,
       server: null as string | null,
-      database: null as string | null
+      database: null as string | null,
+      profile: null as string | null
     },
     target: { 
       connected: false, 
       error: null as string | null,
       server: null as string | null,
-      database: null as string | null
+      database: null as string | null,
+      profile: null as string | null
     }
   };
 
   try {
-    const sourceDb = getSourceDb(flipped);
-    const targetDb = getTargetDb(flipped);
+    const { sourceDb, targetDb, sourceProfile, targetProfile } = getProfileConnections(source, target);
+    results.source.profile = sourceProfile;
+    results.target.profile = targetProfile;
     
     // Test source database
     try {
@@ -38,7 +42,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           results.source.error = 'Connection test failed';
         }
       } else {
-        results.source.error = 'Source database configuration not found';
+        results.source.error = sourceProfile ? `Connection profile "${sourceProfile}" not found` : 'Source database configuration not found';
       }
     } catch (error) {
       results.source.error = error instanceof Error ? error.message : 'Unknown error';
@@ -55,22 +59,26 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           results.target.error = 'Connection test failed';
         }
       } else {
-        results.target.error = 'Target database configuration not found';
+        results.target.error = targetProfile ? `Connection profile "${targetProfile}" not found` : 'Target database configuration not found';
       }
     } catch (error) {
       results.target.error = error instanceof Error ? error.message : 'Unknown error';
     }
 
     const bothConnected = results.source.connected && results.target.connected;
+    const sameProfile = sourceProfile !== null && sourceProfile === targetProfile;
 
     res.status(200).json({
-      success: bothConnected,
-      message: bothConnected ? 'All connections successful' : 'Some connections failed',
+      success: bothConnected && !sameProfile,
+      message: sameProfile
+        ? 'Source and target are the same profile'
+        : bothConnected ? 'All connections successful' : 'Some connections failed',
       results,
       env: {
-        hasSourceConnection: !!process.env.SOURCE_DB_HOST || !!process.env.SOURCE_DB_FILENAME,
-        hasTargetConnection: !!process.env.TARGET_DB_HOST || !!process.env.TARGET_DB_FILENAME,
-        dbType: process.env.DB_TYPE || 'not configured',
+        hasSourceConnection: !!sourceDb,
+        hasTargetConnection: !!targetDb,
+        sourceType: sourceDb?.getConnectionInfo().type ?? 'not configured',
+        targetType: targetDb?.getConnectionInfo().type ?? 'not configured',
       }
     });
   } catch (error) {
@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import AuditLogList from '../components/AuditLogList';
+import { AuditEntry } from '../lib/audit';
+import { SnapshotSummary } from '../lib/snapshots';
+
+export default function History() {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const [snapshotsResponse, historyResponse] = await Promise.all([
+        fetch('/api/snapshots'),
+        fetch('/api/history'),
+      ]);
+      const snapshotsResult = await snapshotsResponse.json();
+      const historyResult = await historyResponse.json();
+
+      if (snapshotsResult.success && historyResult.success) {
+        setSnapshots(snapshotsResult.data);
+        setAuditEntries(historyResult.data);
+      } else {
+        toast.error(`Failed to load history: ${snapshotsResult.message || historyResult.message}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to load history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreSnapshot = async (snapshot: SnapshotSummary) => {
+    const confirmed = window.confirm(
+      `Restore ${snapshot.rowCount} permission rows on ${snapshot.target.server} / ${snapshot.target.database} ` +
+      `to their state from ${new Date(snapshot.createdAt).toLocaleString()}? ` +
+      'Permissions in the same slots that were added or changed since will be replaced.'
+    );
+    if (!confirmed) return;
+
+    setRestoringId(snapshot.id);
+    try {
+      const response = await fetch('/api/snapshots', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: snapshot.id }),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        toast.success(result.message);
+        await fetchHistory();
+      } else {
+        toast.error(`Restore failed: ${result.error || result.message}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to restore snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, []);
+
+  return (
+    <>
+      <Head>
+        <title>Sync History - Directus Compare Tool</title>
+      </Head>
+
+      <div className="min-h-screen bg-gray-50">
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8 flex items-end justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Sync History</h1>
+              <p className="text-gray-600">Audit log of every sync and the snapshots taken before them</p>
+            </div>
+            <Link href="/" className="text-blue-600 hover:text-blue-900">
+              ← Back to compare
+            </Link>
+          </div>
+
+          <div className="card mb-6">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Audit Log</h2>
+              <button onClick={fetchHistory} disabled={loading} className="btn btn-secondary">
+                {loading ? 'Loading...' : 'Refresh'}
+              </button>
+            </div>
+            <AuditLogList entries={auditEntries} />
+          </div>
+
+          <div className="card">
+            <div className="p-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Snapshots</h2>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Taken</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sync Result</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {snapshots.map((snapshot) => (
+                    <tr key={snapshot.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(snapshot.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {snapshot.reason === 'restore' ? 'Before restore' : 'Before sync'}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {snapshot.target.server} / {snapshot.target.database}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {snapshot.rowCount} rows in {snapshot.scopeCount} slots
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-600">
+                        {snapshot.syncSummary
+                          ? `${snapshot.syncSummary.successful} synced, ${snapshot.syncSummary.failed} failed`
+                          : '-'}
+                      </td>
+                      <td className="px-4 py-4 whitespace-nowrap text-sm font-medium">
+                        <button
+                          onClick={() => restoreSnapshot(snapshot)}
+                          disabled={restoringId !== null}
+                          className="btn btn-warning"
+                        >
+                          {restoringId === snapshot.id ? 'Restoring...' : 'Restore'}
+                        </button>
+                        {snapshot.restoredAt && (
+                          <span className="ml-3 text-xs text-gray-500">
+                            Restored {new Date(snapshot.restoredAt).toLocaleString()}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {snapshots.length === 0 && !loading && (
+              <div className="p-8 text-center text-gray-500">
+                No snapshots yet. One is taken automatically before every permission sync.
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,10 +1,23 @@
 import { useState, useEffect } from 'react';
 import Head from 'next/head';
+import Link from 'next/link';
 import toast from 'react-hot-toast';
-import { PermissionDiff } from '../lib/permissions';
+import { IgnoreRule, NewIgnoreRule } from '../lib/ignore';
+import { needsResolution } from '../lib/merge';
+import { Permission, PermissionDiff } from '../lib/permissions';
+import { PolicyDiff, PolicyMatch, PolicyOverrides } from '../lib/policies';
+import { ProfileSummary } from '../lib/profiles';
+import ContentSection from '../components/ContentSection';
 import DiffViewer from '../components/DiffViewer';
+import IgnoreRulesPanel from '../components/IgnoreRulesPanel';
+import MergeResolver from '../components/MergeResolver';
 import SummaryCard from '../components/SummaryCard';
 import PermissionsList from '../components/PermissionsList';
+import PolicyMatchPanel from '../components/PolicyMatchPanel';
+import PoliciesList from '../components/PoliciesList';
+import RolesList from '../components/RolesList';
+import RecordSection from '../components/RecordSection';
+import { RoleDiff } from '../lib/roles';
 
 interface ComparisonSummary {
   total: number;
@@ -17,10 +30,21 @@ interface ComparisonSummary {
 interface ComparisonResult {
   success: boolean;
   data: PermissionDiff[];
+  policyMatches: PolicyMatch[];
   summary: ComparisonSummary;
+  policies: {
+    data: PolicyDiff[];
+    summary: ComparisonSummary;
+  };
+  roles: {
+    data: RoleDiff[];
+    summary: ComparisonSummary;
+  };
   message?: string;
 }
 
+type ComparisonTab = 'permissions' | 'policies' | 'roles' | 'presets' | 'flows' | 'dashboards' | 'settings' | 'translations' | 'folders' | 'schema' | 'database' | 'content';
+
 interface ConnectionTestResult {
   success: boolean;
   message: string;
@@ -49,6 +73,7 @@ export default function Home() {
   const [summary, setSummary] = useState<ComparisonSummary | null>(null);
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
   const [selectedDiffs, setSelectedDiffs] = useState<string[]>([]);
   const [showDiffViewer, setShowDiffViewer] = useState(false);
   const [selectedDiff, setSelectedDiff] = useState<PermissionDiff | null>(null);
@@ -60,11 +85,49 @@ export default function Home() {
     identical: false
   });
   const [selectedPolicy, setSelectedPolicy] = useState<string>('all');
-  const [sidesFlipped, setSidesFlipped] = useState(false);
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [sourceProfile, setSourceProfile] = useState('');
+  const [targetProfile, setTargetProfile] = useState('');
+  const [baselineProfile, setBaselineProfile] = useState('');
+  const [mergeDiff, setMergeDiff] = useState<PermissionDiff | null>(null);
+  const [ignoreRules, setIgnoreRules] = useState<IgnoreRule[]>([]);
+  const [savingIgnoreRules, setSavingIgnoreRules] = useState(false);
+  const [policyMatches, setPolicyMatches] = useState<PolicyMatch[]>([]);
+  const [policyOverrides, setPolicyOverrides] = useState<PolicyOverrides>({});
+  const [policyDiffs, setPolicyDiffs] = useState<PolicyDiff[]>([]);
+  const [selectedPolicyDiffs, setSelectedPolicyDiffs] = useState<string[]>([]);
+  const [policySummary, setPolicySummary] = useState<ComparisonSummary | null>(null);
+  const [roleDiffs, setRoleDiffs] = useState<RoleDiff[]>([]);
+  const [roleSummary, setRoleSummary] = useState<ComparisonSummary | null>(null);
+  const [selectedRoleDiffs, setSelectedRoleDiffs] = useState<string[]>([]);
+  const [activeTab, setActiveTab] = useState<ComparisonTab>('permissions');
+  const [atomicSync, setAtomicSync] = useState(false);
+
+  const fetchProfiles = async () => {
+    try {
+      const response = await fetch('/api/profiles');
+      const result = await response.json();
+
+      if (result.success) {
+        setProfiles(result.data);
+        setSourceProfile(result.defaults.source || '');
+        setTargetProfile(result.defaults.target || '');
+      } else {
+        toast.error(`Failed to load connection profiles: ${result.error || result.message}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to load connection profiles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
 
   const testConnections = async () => {
+    if (!sourceProfile || !targetProfile) {
+      return;
+    }
+
     try {
-      const response = await fetch(`/api/test-connection?flipped=${sidesFlipped}`);
+      const params = new URLSearchParams({ source: sourceProfile, target: targetProfile });
+      const response = await fetch(`/api/test-connection?${params}`);
       const result: ConnectionTestResult = await response.json();
       setConnectionStatus(result);
       
@@ -85,11 +148,24 @@ export default function Home() {
     
     setLoading(true);
     try {
-      const response = await fetch(`/api/compare?flipped=${sidesFlipped}`);
+      const params = new URLSearchParams({
+        source: sourceProfile,
+        target: targetProfile,
+        policyMap: JSON.stringify(policyOverrides),
+      });
+      if (baselineProfile) {
+        params.set('baseline', baselineProfile);
+      }
+      const response = await fetch(`/api/compare?${params}`);
       const result: ComparisonResult = await response.json();
       
       if (result.success) {
         setDiffs(result.data);
+        setPolicyMatches(result.policyMatches);
+        setPolicyDiffs(result.policies.data);
+        setPolicySummary(result.policies.summary);
+        setRoleDiffs(result.roles.data);
+        setRoleSummary(result.roles.summary);
         setSummary(result.summary);
         toast.success(`Comparison completed! Found ${result.summary.total} permissions`);
       } else {
@@ -102,18 +178,95 @@ export default function Home() {
     }
   };
 
-  const toggleSides = () => {
-    setSidesFlipped(!sidesFlipped);
+  const selectProfiles = (source: string, target: string) => {
+    setSourceProfile(source);
+    setTargetProfile(target);
     setSelectedDiffs([]);
     setDiffs([]);
     setSummary(null);
     setConnectionStatus(null);
+    setPolicyMatches([]);
+    setPolicyOverrides({});
+    setPolicyDiffs([]);
+    setSelectedPolicyDiffs([]);
+    setPolicySummary(null);
+    setRoleDiffs([]);
+    setSelectedRoleDiffs([]);
+    setRoleSummary(null);
   };
 
-  const syncPermissions = async () => {
+  const handlePolicyOverrideChange = (sourceId: string, targetId: string | null | undefined) => {
+    setPolicyOverrides(prev => {
+      const next = { ...prev };
+      if (targetId === undefined) {
+        delete next[sourceId];
+      } else {
+        next[sourceId] = targetId;
+      }
+      return next;
+    });
+  };
+
+  const applyPolicyOverrides = async () => {
+    setSelectedDiffs([]);
+    setSelectedPolicyDiffs([]);
+    setSelectedRoleDiffs([]);
+    await fetchComparison();
+  };
+
+  const getSelectedChanges = () => ({
     // Only sync items that are both filtered (visible) AND selected (checked)
-    const diffsToSync = filteredDiffs.filter(d => selectedDiffs.includes(d.key));
-    if (diffsToSync.length === 0) {
+    diffs: filteredDiffs.filter(d => selectedDiffs.includes(d.key)),
+    policyDiffs: policyDiffs.filter(d => selectedPolicyDiffs.includes(d.key)),
+    roleDiffs: roleDiffs.filter(d => selectedRoleDiffs.includes(d.key)),
+  });
+
+  const previewSql = async () => {
+    const changes = getSelectedChanges();
+    if (changes.diffs.length === 0 && changes.policyDiffs.length === 0 && changes.roleDiffs.length === 0) {
+      toast.error('Please select permissions to preview');
+      return;
+    }
+
+    setPreviewing(true);
+    try {
+      const response = await fetch('/api/sync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...changes,
+          source: sourceProfile,
+          target: targetProfile,
+          dryRun: true,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        const blob = new Blob([result.sql], { type: 'application/sql' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `directus-sync-${new Date().toISOString().replace(/[:.]/g, '-')}.sql`;
+        link.click();
+        URL.revokeObjectURL(url);
+        toast.success(result.message);
+      } else {
+        toast.error(`Preview failed: ${result.message}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to preview SQL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const syncPermissions = async () => {
+    const changes = getSelectedChanges();
+    if (changes.diffs.length === 0 && changes.policyDiffs.length === 0 && changes.roleDiffs.length === 0) {
       toast.error('Please select permissions to sync');
       return;
     }
@@ -125,22 +278,30 @@ export default function Home() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ diffs: diffsToSync, flipped: sidesFlipped }),
+        body: JSON.stringify({
+          ...changes,
+          source: sourceProfile,
+          target: targetProfile,
+          atomic: atomicSync,
+        }),
       });
       
       const result = await response.json();
       
       if (result.success) {
-        toast.success(`🎉 Sync completed! ${result.summary.successful} permissions synced successfully`, {
+        toast.success(`🎉 Sync completed! ${result.summary.successful} changes synced successfully`, {
           duration: 4000,
         });
         if (result.summary.failed > 0) {
-          toast.error(`⚠️ ${result.summary.failed} permissions failed to sync`);
+          toast.error(`⚠️ ${result.summary.failed} changes failed to sync`);
         }
         setSelectedDiffs([]);
+        setSelectedPolicyDiffs([]);
+        setSelectedRoleDiffs([]);
         await fetchComparison();
       } else {
-        toast.error(`Sync failed: ${result.message}`);
+        // Pre-flight problems come one per line
+        toast.error(`Sync failed: ${result.message}`, { style: { whiteSpace: 'pre-line' } });
       }
     } catch (error) {
       toast.error(`Failed to sync permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -157,6 +318,22 @@ export default function Home() {
     }
   };
 
+  const handlePolicyDiffSelect = (key: string, selected: boolean) => {
+    if (selected) {
+      setSelectedPolicyDiffs(prev => [...prev, key]);
+    } else {
+      setSelectedPolicyDiffs(prev => prev.filter(k => k !== key));
+    }
+  };
+
+  const handleRoleDiffSelect = (key: string, selected: boolean) => {
+    if (selected) {
+      setSelectedRoleDiffs(prev => [...prev, key]);
+    } else {
+      setSelectedRoleDiffs(prev => prev.filter(k => k !== key));
+    }
+  };
+
   // Get unique policies for filter dropdown
   const availablePolicies = Array.from(
     new Set(diffs.map(diff => diff.policy_name).filter(name => name && name !== 'Unknown Policy'))
@@ -179,6 +356,25 @@ export default function Home() {
   // Then apply both policy and status filters
   const filteredDiffs = policyFilteredDiffs.filter(diff => statusFilters[diff.status]);
 
+  const selectedSyncCount = filteredDiffs.filter(d => selectedDiffs.includes(d.key)).length +
+    selectedPolicyDiffs.length +
+    selectedRoleDiffs.length;
+
+  const tabs: Array<{ id: ComparisonTab; label: string; changes: number }> = [
+    { id: 'permissions', label: 'Permissions', changes: summary ? summary.total - summary.identical : 0 },
+    { id: 'policies', label: 'Policies', changes: policySummary ? policySummary.total - policySummary.identical : 0 },
+    { id: 'roles', label: 'Roles', changes: roleSummary ? roleSummary.total - roleSummary.identical : 0 },
+    { id: 'presets', label: 'Presets', changes: 0 },
+    { id: 'flows', label: 'Flows', changes: 0 },
+    { id: 'dashboards', label: 'Dashboards', changes: 0 },
+    { id: 'settings', label: 'Settings', changes: 0 },
+    { id: 'translations', label: 'Translations', changes: 0 },
+    { id: 'folders', label: 'Folders', changes: 0 },
+    { id: 'schema', label: 'Schema', changes: 0 },
+    { id: 'database', label: 'Database Tables', changes: 0 },
+    { id: 'content', label: 'Content', changes: 0 },
+  ];
+
   const handleStatusFilterChange = (status: 'added' | 'removed' | 'modified' | 'identical') => {
     setStatusFilters(prev => ({
       ...prev,
@@ -196,7 +392,7 @@ export default function Home() {
   };
 
   const handleSelectAll = () => {
-    const selectableDiffs = filteredDiffs.filter(d => d.status !== 'identical');
+    const selectableDiffs = filteredDiffs.filter(d => d.status !== 'identical' && !needsResolution(d));
     setSelectedDiffs(selectableDiffs.map(d => d.key));
   };
 
@@ -221,9 +417,83 @@ export default function Home() {
     setShowDiffViewer(true);
   };
 
+  const selectBaseline = (baseline: string) => {
+    setBaselineProfile(baseline);
+    // Merge information from the previous baseline no longer applies
+    setSelectedDiffs([]);
+    setDiffs([]);
+    setSummary(null);
+  };
+
+  const handleResolveMerge = (key: string, mergedPermission: Permission) => {
+    setDiffs(prev => prev.map(diff => diff.key === key ? { ...diff, mergedPermission } : diff));
+    setSelectedDiffs(prev => prev.includes(key) ? prev : [...prev, key]);
+    setMergeDiff(null);
+  };
+
+  const fetchIgnoreRules = async () => {
+    try {
+      const response = await fetch('/api/ignore');
+      const result = await response.json();
+
+      if (result.success) {
+        setIgnoreRules(result.data);
+      } else {
+        toast.error(`Failed to load ignore rules: ${result.error || result.message}`);
+      }
+    } catch (error) {
+      toast.error(`Failed to load ignore rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Rules change what the comparison returns, so re-run it once one was added or removed
+  const updateIgnoreRules = async (request: Promise<Response>, successMessage: string) => {
+    setSavingIgnoreRules(true);
+    try {
+      const result = await (await request).json();
+      if (!result.success) {
+        toast.error(`Failed to update ignore rules: ${result.message}`);
+        return;
+      }
+      toast.success(successMessage);
+      await fetchIgnoreRules();
+      if (diffs.length > 0) {
+        await fetchComparison();
+      }
+    } catch (error) {
+      toast.error(`Failed to update ignore rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSavingIgnoreRules(false);
+    }
+  };
+
+  const handleAddIgnoreRule = (rule: NewIgnoreRule) => updateIgnoreRules(
+    fetch('/api/ignore', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(rule),
+    }),
+    'Ignore rule added'
+  );
+
+  const handleRemoveIgnoreRule = (id: string) => updateIgnoreRules(
+    fetch(`/api/ignore?id=${encodeURIComponent(id)}`, { method: 'DELETE' }),
+    'Ignore rule removed'
+  );
+
+  const handleIgnore = (diff: PermissionDiff) => {
+    setSelectedDiffs(prev => prev.filter(key => key !== diff.key));
+    handleAddIgnoreRule({ collection: diff.collection, action: diff.action, policy: diff.policy_name });
+  };
+
+  useEffect(() => {
+    fetchProfiles();
+    fetchIgnoreRules();
+  }, []);
+
   useEffect(() => {
     testConnections();
-  }, [sidesFlipped]);
+  }, [sourceProfile, targetProfile]);
 
   return (
     <>
@@ -236,9 +506,14 @@ export default function Home() {
 
       <div className="min-h-screen bg-gray-50">
         <div className="container mx-auto px-4 py-8">
-          <div className="mb-8">
-            <h1 className="text-3xl font-bold text-gray-900 mb-2">Directus Compare Tool</h1>
-            <p className="text-gray-600">Compare and sync permissions between Directus instances</p>
+          <div className="mb-8 flex items-end justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Directus Compare Tool</h1>
+              <p className="text-gray-600">Compare and sync permissions between Directus instances</p>
+            </div>
+            <Link href="/history" className="text-blue-600 hover:text-blue-900">
+              Sync History →
+            </Link>
           </div>
 
           <div className="mb-6 flex items-center gap-4">
@@ -252,70 +527,321 @@ export default function Home() {
             
             <div className="flex-1"></div>
             
-            {diffs.length > 0 && (
+            {summary && (
+              <label className="flex items-center text-sm text-gray-600" title="Apply all selected changes in one transaction, or none at all if any of them fails">
+                <input
+                  type="checkbox"
+                  checked={atomicSync}
+                  onChange={() => setAtomicSync(!atomicSync)}
+                  className="rounded border-gray-300 mr-2"
+                />
+                All-or-nothing
+              </label>
+            )}
+
+            {summary && (
+              <button
+                onClick={previewSql}
+                disabled={previewing || selectedSyncCount === 0}
+                className="btn btn-secondary"
+                title="Download the SQL this sync would run, without touching the target"
+              >
+                {previewing ? 'Generating...' : 'Preview SQL'}
+              </button>
+            )}
+
+            {summary && (
               <button
                 onClick={syncPermissions}
-                disabled={syncing || selectedDiffs.length === 0}
+                disabled={syncing || selectedSyncCount === 0}
                 className="btn btn-success"
               >
-                {syncing ? 'Syncing...' : `Sync Selected (${filteredDiffs.filter(d => selectedDiffs.includes(d.key)).length})`}
+                {syncing ? 'Syncing...' : `Sync Selected (${selectedSyncCount})`}
               </button>
             )}
           </div>
 
-          {connectionStatus && (
-            <div className="card p-3 mb-4">
+          <div className="card p-3 mb-4">
+            {profiles.length === 0 ? (
+              <div className="text-sm text-red-600">
+                No connection profiles configured. Set the SOURCE_DB_* / TARGET_DB_* environment variables or add a profiles file.
+              </div>
+            ) : (
               <div className="flex items-center justify-between text-sm">
                 <div className="flex items-center flex-1">
-                  <span className={`mr-2 ${connectionStatus.results.source.connected ? 'text-green-600' : 'text-red-600'}`}>
-                    {connectionStatus.results.source.connected ? '✅' : '❌'}
-                  </span>
+                  {connectionStatus && (
+                    <span className={`mr-2 ${connectionStatus.results.source.connected ? 'text-green-600' : 'text-red-600'}`}>
+                      {connectionStatus.results.source.connected ? '✅' : '❌'}
+                    </span>
+                  )}
                   <span className="font-medium mr-2">Source:</span>
-                  {connectionStatus.results.source.server && connectionStatus.results.source.database ? (
-                    <span className="text-gray-700">
+                  <select
+                    value={sourceProfile}
+                    onChange={(e) => selectProfiles(e.target.value, targetProfile)}
+                    className="px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {profiles.map((profile) => (
+                      <option key={profile.name} value={profile.name}>
+                        {profile.label} ({profile.type})
+                      </option>
+                    ))}
+                  </select>
+                  <a
+                    href={`/api/export?${new URLSearchParams({ profile: sourceProfile, format: 'yaml' })}`}
+                    className="ml-2 text-blue-600 hover:text-blue-900"
+                    title="Download a snapshot of this instance's permissions, policies and schema"
+                  >
+                    Export
+                  </a>
+                  {connectionStatus?.results.source.error ? (
+                    <span className="ml-2 text-red-600">{connectionStatus.results.source.error}</span>
+                  ) : connectionStatus?.results.source.server && (
+                    <span className="ml-2 text-gray-500">
                       {connectionStatus.results.source.server} / {connectionStatus.results.source.database}
                     </span>
-                  ) : (
-                    <span className="text-red-600">
-                      {connectionStatus.results.source.error || 'Not configured'}
-                    </span>
                   )}
                 </div>
                 
                 <div className="flex items-center justify-center px-4">
                   <button
-                    onClick={toggleSides}
-                    className={`btn ${sidesFlipped ? 'btn-warning' : 'btn-info'} flex items-center px-3 py-2`}
-                    title="Click to toggle direction"
+                    onClick={() => selectProfiles(targetProfile, sourceProfile)}
+                    className="btn btn-info flex items-center px-3 py-2"
+                    title="Swap source and target"
                   >
                     <span className="text-lg">⇄</span>
                   </button>
                 </div>
                 
                 <div className="flex items-center flex-1 justify-end">
-                  <span className="font-medium mr-2">Target:</span>
-                  {connectionStatus.results.target.server && connectionStatus.results.target.database ? (
-                    <span className="text-gray-700">
+                  {connectionStatus?.results.target.error ? (
+                    <span className="mr-2 text-red-600">{connectionStatus.results.target.error}</span>
+                  ) : connectionStatus?.results.target.server && (
+                    <span className="mr-2 text-gray-500">
                       {connectionStatus.results.target.server} / {connectionStatus.results.target.database}
                     </span>
-                  ) : (
-                    <span className="text-red-600">
-                      {connectionStatus.results.target.error || 'Not configured'}
+                  )}
+                  <span className="font-medium mr-2">Target:</span>
+                  <select
+                    value={targetProfile}
+                    onChange={(e) => selectProfiles(sourceProfile, e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {profiles.map((profile) => (
+                      <option key={profile.name} value={profile.name}>
+                        {profile.label} ({profile.type})
+                      </option>
+                    ))}
+                  </select>
+                  <a
+                    href={`/api/export?${new URLSearchParams({ profile: targetProfile, format: 'yaml' })}`}
+                    className="ml-2 text-blue-600 hover:text-blue-900"
+                    title="Download a snapshot of this instance's permissions, policies and schema"
+                  >
+                    Export
+                  </a>
+                  {connectionStatus && (
+                    <span className={`ml-2 ${connectionStatus.results.target.connected ? 'text-green-600' : 'text-red-600'}`}>
+                      {connectionStatus.results.target.connected ? '✅' : '❌'}
                     </span>
                   )}
-                  <span className={`ml-2 ${connectionStatus.results.target.connected ? 'text-green-600' : 'text-red-600'}`}>
-                    {connectionStatus.results.target.connected ? '✅' : '❌'}
-                  </span>
                 </div>
               </div>
+            )}
+            {profiles.length > 0 && (
+              <div className="mt-2 flex items-center text-sm">
+                <span className="font-medium mr-2">Baseline:</span>
+                <select
+                  value={baselineProfile}
+                  onChange={(e) => selectBaseline(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">None (two-way compare)</option>
+                  {profiles.map((profile) => (
+                    <option key={profile.name} value={profile.name}>
+                      {profile.label} ({profile.type})
+                    </option>
+                  ))}
+                </select>
+                <span className="ml-2 text-gray-500">
+                  The last state both sides shared, usually a snapshot; shows which side changed each permission
+                </span>
+              </div>
+            )}
+            {sourceProfile && sourceProfile === targetProfile && (
+              <div className="mt-2 text-sm text-yellow-700">
+                ⚠️ Source and target are the same profile; pick two different ones to compare.
+              </div>
+            )}
+          </div>
+
+          {connectionStatus?.success && (
+            <div className="mb-6 border-b border-gray-200 flex flex-wrap gap-2">
+              {tabs.map((tab) => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`px-4 py-2 -mb-px border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === tab.id
+                      ? 'border-blue-600 text-blue-600'
+                      : 'border-transparent text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {tab.label}
+                  {tab.changes > 0 && (
+                    <span className="ml-2 status-badge status-modified">{tab.changes}</span>
+                  )}
+                </button>
+              ))}
             </div>
           )}
 
-          {summary && (
+          {activeTab === 'permissions' && summary && (
             <SummaryCard summary={summary} />
           )}
 
-          {diffs.length > 0 && (
+          {activeTab === 'permissions' && connectionStatus?.success && (
+            <IgnoreRulesPanel
+              rules={ignoreRules}
+              onAdd={handleAddIgnoreRule}
+              onRemove={handleRemoveIgnoreRule}
+              saving={savingIgnoreRules}
+            />
+          )}
+
+          {activeTab === 'policies' && policySummary && (
+            <SummaryCard summary={policySummary} title="Policy Summary" />
+          )}
+
+          {activeTab === 'policies' && policyMatches.length > 0 && (
+            <PolicyMatchPanel
+              matches={policyMatches}
+              overrides={policyOverrides}
+              onOverrideChange={handlePolicyOverrideChange}
+              onApply={applyPolicyOverrides}
+              applying={loading}
+            />
+          )}
+
+          {activeTab === 'policies' && policyDiffs.length > 0 && (
+            <PoliciesList
+              diffs={policyDiffs}
+              selectedDiffs={selectedPolicyDiffs}
+              onDiffSelect={handlePolicyDiffSelect}
+            />
+          )}
+
+          {activeTab === 'roles' && roleSummary && (
+            <SummaryCard summary={roleSummary} title="Role Summary" />
+          )}
+
+          {activeTab === 'roles' && roleDiffs.length > 0 && (
+            <RolesList
+              diffs={roleDiffs}
+              selectedDiffs={selectedRoleDiffs}
+              onDiffSelect={handleRoleDiffSelect}
+            />
+          )}
+
+          {activeTab === 'presets' && (
+            <RecordSection
+              key={`presets-${sourceProfile}-${targetProfile}`}
+              section="presets"
+              title="Presets"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+              syncable
+            />
+          )}
+
+          {activeTab === 'flows' && (
+            <RecordSection
+              key={`flows-${sourceProfile}-${targetProfile}`}
+              section="flows"
+              title="Flows"
+              groupLabel="Trigger"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+              syncable
+            />
+          )}
+
+          {activeTab === 'dashboards' && (
+            <RecordSection
+              key={`dashboards-${sourceProfile}-${targetProfile}`}
+              section="dashboards"
+              title="Dashboards"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+              syncable
+            />
+          )}
+
+          {activeTab === 'settings' && (
+            <RecordSection
+              key={`settings-${sourceProfile}-${targetProfile}`}
+              section="settings"
+              title="Settings"
+              groupLabel="Group"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+              syncable
+            />
+          )}
+
+          {activeTab === 'translations' && (
+            <RecordSection
+              key={`translations-${sourceProfile}-${targetProfile}`}
+              section="translations"
+              title="Translations"
+              groupLabel="Language"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+              syncable
+            />
+          )}
+
+          {activeTab === 'folders' && (
+            <RecordSection
+              key={`folders-${sourceProfile}-${targetProfile}`}
+              section="folders"
+              title="Folders"
+              groupLabel="Top Folder"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+              syncable
+            />
+          )}
+
+          {activeTab === 'schema' && (
+            <RecordSection
+              key={`schema-${sourceProfile}-${targetProfile}`}
+              section="schema"
+              title="Schema"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+            />
+          )}
+
+          {activeTab === 'database' && (
+            <RecordSection
+              key={`database-${sourceProfile}-${targetProfile}`}
+              section="database"
+              title="Database Tables"
+              groupLabel="Table"
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+            />
+          )}
+
+          {activeTab === 'content' && (
+            <ContentSection
+              key={`content-${sourceProfile}-${targetProfile}`}
+              sourceProfile={sourceProfile}
+              targetProfile={targetProfile}
+            />
+          )}
+
+          {activeTab === 'permissions' && diffs.length > 0 && (
             <div className="card p-4 mb-6">
               <div className="flex flex-col lg:flex-row gap-6">
                 <div className="flex-1">
@@ -425,13 +951,22 @@ export default function Home() {
             </div>
           )}
 
-          {filteredDiffs.length > 0 && (
+          {activeTab === 'permissions' && filteredDiffs.length > 0 && (
             <PermissionsList
               diffs={filteredDiffs}
               selectedDiffs={selectedDiffs}
               onDiffSelect={handleDiffSelect}
               onViewDiff={handleViewDiff}
-              sidesFlipped={sidesFlipped}
+              onResolveMerge={setMergeDiff}
+              onIgnore={handleIgnore}
+            />
+          )}
+
+          {mergeDiff && (
+            <MergeResolver
+              diff={mergeDiff}
+              onResolve={handleResolveMerge}
+              onClose={() => setMergeDiff(null)}
             />
           )}
 
@@ -439,7 +974,6 @@ export default function Home() {
             <DiffViewer
               diff={selectedDiff}
               onClose={() => setShowDiffViewer(false)}
-              sidesFlipped={sidesFlipped}
             />
           )}
         </div>